@@ -51,12 +51,21 @@ map , :set numerichints!<CR>
 map ga :settings<CR>
 unmap j k h l
 let @@a = 3
+let macro a = "gg3j<C-d>"
 
 site '*://*/*' {
   call :script [].slice.call(document.querySelectorAll('*[accesskey]')).forEach(function(e){e.removeAttribute('accesskey')});
   call :script console.log(3);
 }
 
+site '*://intranet.example.com/*' {
+  hintaccept '.menu-toggle' "div[role='tab']"
+  hintreject 'a:not([href])'
+  hintreject '.tooltip'
+  nextpattern 'a.pager-next'
+  prevpattern 'a.pager-prev'
+}
+
 let blacklists = ["http://localhost/*","http://lo-th.github.io/*"]
 
 f(x) -> {{
@@ -75,3 +84,38 @@ command refresh open @%
 
 let array = [0, [0, 1, 123], 2]
 let array_elem = array[1 ][ 2]
+
+autocmd PageLoad *://*.example.com/* set nosmoothscroll
+autocmd TabEnter,Navigate '*://mail.example.com/*' normal gg
+augroup reading
+  autocmd FocusInput * set nohud
+augroup END
+
+let g:work = 1
+if platform == "mac"
+  let mapleader = ","
+elseif platform == "linux" && chrome >= 100
+  let mapleader = ";"
+else
+  let mapleader = "\\"
+endif
+if g:work && (profile =~ "^work" || !0)
+  map <C-w> closeTab
+endif
+source ~/.cvimrc.d/sites.vim
+source "../common.vim"
+
+vmap <C-c> y
+cmap <C-j> <Tab>
+vunmap <C-c>
+cunmap <C-j>
+noremap j k
+nnoremap k j
+inoremap <C-a> <C-i>
+vnoremap L $
+cnoremap <C-k> <S-Tab>
+if platform == "mac"
+  map x closeTab
+else
+  map x closeTabLeft
+endif
@@ -31,6 +31,7 @@ const contentScriptFiles = [
   'hints',
   'bookmarks',
   'command',
+  'autocmds',
   'keys',
   'clipboard',
   'complete',
@@ -39,6 +40,8 @@ const contentScriptFiles = [
   'cursor',
   'status',
   'hud',
+  'whichkey',
+  'cheatsheet',
   'visual',
   'scroll',
   'search',
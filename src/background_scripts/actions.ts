@@ -4,6 +4,7 @@ interface ActionRequest {
   action: string;
   data?: any;
   repeats?: number;
+  range?: [string, string];
   url?: string;
   noconvert?: boolean;
   tab?: {
@@ -37,6 +38,7 @@ interface ActionRequest {
   css?: string;
   search?: string;
   limit?: number;
+  matcher?: string;
   code?: string;
   request?: any;
   title?: string;
@@ -47,6 +49,29 @@ interface ActionRequest {
   isCommandFrame?: boolean;
   isRoot?: boolean;
   complete?: boolean;
+  register?: string;
+  append?: boolean;
+  position?: [number, number];
+  anchor?: string;
+  names?: string[];
+  tabIds?: number[];
+  persist?: boolean;
+  muted?: boolean;
+  newWindow?: boolean;
+  mode?: string;
+  prefix?: string;
+  expanded?: any;
+}
+
+interface GlobalMark {
+  url: string;
+  position: [number, number];
+  anchor?: string;
+}
+
+interface ScrollMarks {
+  local: { [url: string]: { [name: string]: [number, number] } };
+  global: { [name: string]: GlobalMark };
 }
 
 interface ActionContext {
@@ -88,13 +113,18 @@ interface ExternalModules {
     saveCommandHistory: () => void;
     sendToTabs: () => void;
     append: (value: string, type: string) => void;
-    retrieveSearchHistory: (search: string, limit: number, callback: (results: any) => void) => void;
+    retrieveSearchHistory: (search: string, limit: number, callback: (results: any) => void, matcher?: string) => void;
     commandHistory: any[];
   };
   Options: {
     sendSettings: () => void;
     refreshSettings: (callback: () => void) => void;
     saveSettings: (options: any) => void;
+    validateSetting: (name: string, value: any) => string | null;
+    checkConfig: (config: any) => string[];
+    getSettingsSchema: () => any;
+    serializeSettings: (config?: any) => string;
+    unsavedSettings: { [key: string]: any };
   };
   Bookmarks: {
     getFolderLinks: (path: string, callback: (links: any) => void) => void;
@@ -128,7 +158,14 @@ interface ExternalModules {
     installMessage: string;
   };
   RCParser: {
-    parse: (config: string) => any;
+    parse: (config: string, options?: { profile?: string }) => any;
+  };
+  Sources: {
+    files: any[];
+    getFiles: () => Promise<any[]>;
+    expand: (text: string, base: string, homedirectory: string) => Promise<any>;
+    locate: (expanded: any, line: number) => [string, number];
+    locateMappings: (expanded: any, config: any) => void;
   };
 }
 
@@ -154,15 +191,28 @@ declare var Files: ExternalModules['Files'];
 declare var Popup: ExternalModules['Popup'];
 declare var Updates: ExternalModules['Updates'];
 declare var RCParser: ExternalModules['RCParser'];
+declare var Sources: ExternalModules['Sources'];
 declare var getTabOrderIndex: (tab: TabOrderContext) => number;
 declare var getTab: (tab: chrome.tabs.Tab, reverse: boolean, count: number | boolean, first: boolean, last: boolean) => void;
 declare var httpRequest: (options: any) => Promise<string>;
-declare var parseConfig: (config: string) => any;
+declare var parseConfig: (config: string, options?: { profile?: string }) => any;
 declare var Object: any;
 
 // Initialize Quickmarks at module level
 const quickmarks: any = {};
 
+// Named yank registers ("a-"z), persisted in local storage
+const registers: { [name: string]: string } = {};
+chrome.storage.local.get('registers', (result) => {
+  Object.assign(registers, result.registers);
+});
+
+// Scroll marks: lowercase marks belong to a URL, uppercase marks are global
+const scrollMarks: ScrollMarks = { local: {}, global: {} };
+chrome.storage.local.get('marks', (result) => {
+  Object.assign(scrollMarks, result.marks);
+});
+
 class Actions {
   private static lastCommand: any = null;
   private static lastSearch: string | null = null;
@@ -309,6 +359,142 @@ class Actions {
     }
   }
 
+  /**
+   * Store a recorded macro and write it back to the cVimrc as
+   * `let macro {register} = "..."` so it can be edited from the options page.
+   */
+  static saveMacro(context: ActionContext): void {
+    const { name, value } = context.request;
+    if (!name || value === undefined) return;
+
+    const line = 'let macro ' + name + ' = "' +
+      value.replace(/[\\"]/g, '\\$&') + '"';
+    const pattern = new RegExp('^let +macro +' + name + ' *=.*$', 'm');
+    settings.macros[name] = value;
+    if (pattern.test(settings.RC)) {
+      settings.RC = settings.RC.replace(pattern, () => line);
+    } else {
+      settings.RC = (settings.RC ? settings.RC.replace(/\n*$/, '\n') : '') + line + '\n';
+    }
+    Options.saveSettings({ settings, sendSettings: true });
+  }
+
+  /**
+   * Apply the settings parsed from a `:let` statement. With request.persist
+   * (`:let!`) the statement in request.config is also written to the cVimrc,
+   * replacing an earlier `let` of the same setting. Otherwise the stored
+   * value is kept in Options.unsavedSettings so that saving the settings
+   * does not write the new one.
+   */
+  static letSetting(context: ActionContext): void {
+    const added = context.request.settings || {};
+    const schema = Options.getSettingsSchema();
+    for (const key in added) {
+      if (schema[key]?.type === 'boolean' &&
+          (added[key] === 0 || added[key] === 1)) {
+        added[key] = added[key] === 1;
+      }
+      const error = Options.validateSetting(key, added[key]);
+      if (error !== null) {
+        context.callback({ error });
+        return;
+      }
+    }
+    for (const key in added) {
+      if (context.request.persist) {
+        delete Options.unsavedSettings[key];
+      } else if (!Options.unsavedSettings.hasOwnProperty(key)) {
+        Options.unsavedSettings[key] = settings[key];
+      }
+      if (typeof added[key] === 'object' && !Array.isArray(added[key])) {
+        settings[key] = Object.assign({}, settings[key], added[key]);
+      } else {
+        settings[key] = added[key];
+      }
+    }
+    if (context.request.persist && context.request.config) {
+      const line = context.request.config.trim();
+      const names = (line.match(/^let\s+[^=]*[^=\s]/) || [''])[0].split(/\s+/);
+      const pattern = new RegExp('^' + names.map((name: string) => {
+        return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }).join(' +') + ' *=.*$', 'm');
+      if (pattern.test(settings.RC)) {
+        settings.RC = settings.RC.replace(pattern, () => line);
+      } else {
+        settings.RC = (settings.RC ? settings.RC.replace(/\n*$/, '\n') : '') + line + '\n';
+      }
+      Options.saveSettings({ settings, sendSettings: true });
+    } else {
+      Options.sendSettings();
+    }
+    context.callback({});
+  }
+
+  /**
+   * Reset request.name, or every setting in the schema when the name is
+   * 'all', to its default value (`:set {name}&`).
+   */
+  static resetSetting(context: ActionContext): void {
+    const schema = Options.getSettingsSchema();
+    const names = context.request.name === 'all' ?
+      Object.keys(schema) : [context.request.name || ''];
+    for (const name of names) {
+      if (!schema.hasOwnProperty(name)) {
+        context.callback({ error: 'unknown option: ' + name });
+        return;
+      }
+      settings[name] = Object.clone(schema[name].default);
+      delete Options.unsavedSettings[name];
+    }
+    Options.sendSettings();
+    context.callback({});
+  }
+
+  /**
+   * Write the runtime settings, including quickmarks added since the last
+   * save, as cVimrc text
+   */
+  static serializeSettings(context: ActionContext): void {
+    context.callback(Options.serializeSettings(Object.assign({}, settings, {
+      qmarks: Object.assign({}, settings.qmarks, quickmarks)
+    })));
+  }
+
+  static getSettingsSchema(context: ActionContext): void {
+    context.callback(Options.getSettingsSchema());
+  }
+
+  /**
+   * Check the settings of a cVimrc parsed by the options page
+   */
+  static checkConfig(context: ActionContext): void {
+    context.callback(Options.checkConfig(context.request.settings || {}));
+  }
+
+  /**
+   * Splice the files of the `source` statements into a cVimrc edited on
+   * the options page before it is parsed
+   */
+  static expandSources(context: ActionContext): boolean {
+    Sources.expand(context.request.config || '', context.request.path || '',
+      settings.homedirectory || '').then(context.callback);
+    return true;
+  }
+
+  /**
+   * Name the file, line and site block of the mappings of a cVimrc parsed
+   * by the options page from an expandSources result
+   */
+  static locateMappings(context: ActionContext): void {
+    Sources.locateMappings(context.request.expanded, context.request.settings);
+    context.callback(context.request.settings);
+  }
+
+  static getSourcedFiles(context: ActionContext): boolean {
+    Sources.getFiles().then(context.callback);
+    return true;
+  }
+
   static syncSettings(context: ActionContext): void {
     if (context.request.settings.hud === false && settings.hud === true) {
       chrome.tabs.query({}, (tabs) => {
@@ -321,6 +507,10 @@ class Actions {
     }
     
     for (const key in context.request.settings) {
+      // A setting changed with :set after :let is saved again
+      if (JSON.stringify(settings[key]) !== JSON.stringify(context.request.settings[key])) {
+        delete Options.unsavedSettings[key];
+      }
       settings[key] = context.request.settings[key];
     }
     Options.sendSettings();
@@ -365,6 +555,13 @@ class Actions {
   static closeTab(context: ActionContext): void {
     if (!context.sender.tab) return;
 
+    if (context.request.range) {
+      Actions.getRangeTabs(context, (tabs) => {
+        chrome.tabs.remove(tabs.map((tab) => tab.id!));
+      });
+      return;
+    }
+
     chrome.tabs.query({ currentWindow: true }, (tabs) => {
       const sortedIds = tabs.map((tab) => tab.id).filter((id): id is number => id !== undefined);
       let base = context.sender.tab!.index;
@@ -551,7 +748,35 @@ class Actions {
     });
   }
 
+  /**
+   * Resolve request.range, a pair of command-bar tab addresses such as
+   * '3', '.', '$' or '.+2', to the tabs of the current window.
+   */
+  private static getRangeTabs(context: ActionContext, callback: (tabs: chrome.tabs.Tab[]) => void): void {
+    chrome.tabs.query({ currentWindow: true }, (tabs) => {
+      const current = context.sender.tab!.index + 1;
+      const resolve = (address: string): number => {
+        const match = address.match(/^(\d+|[.$])?([+-]\d+)?$/) || [];
+        let index = match[1] === '$' ? tabs.length :
+          match[1] === undefined || match[1] === '.' ? current : +match[1];
+        index += +(match[2] || 0);
+        return Math.min(Math.max(index, 1), tabs.length);
+      };
+      const range = context.request.range!.map(resolve).sort((a: number, b: number) => a - b);
+      callback(tabs.slice(range[0]! - 1, range[1]));
+    });
+  }
+
   static nextTab(context: ActionContext): void {
+    if (context.request.range) {
+      Actions.getRangeTabs(context, (tabs) => {
+        const tab = tabs[tabs.length - 1];
+        if (tab?.id) {
+          chrome.tabs.update(tab.id, { active: true });
+        }
+      });
+      return;
+    }
     if (context.sender.tab) {
       getTab(context.sender.tab, false, context.request.repeats || 1, false, false);
     }
@@ -590,7 +815,19 @@ class Actions {
 
   static pinTab(context: ActionContext): void {
     if (!context.sender.tab?.id) return;
-    
+
+    if (context.request.range) {
+      Actions.getRangeTabs(context, (tabs) => {
+        tabs.forEach((tab) => {
+          chrome.tabs.update(tab.id!, {
+            pinned: context.request.pinned !== undefined ?
+              context.request.pinned : !tab.pinned
+          });
+        });
+      });
+      return;
+    }
+
     const pinned = context.request.pinned !== undefined ? 
       context.request.pinned : 
       !context.sender.tab.pinned;
@@ -598,12 +835,217 @@ class Actions {
     chrome.tabs.update(context.sender.tab.id, { pinned });
   }
 
+  /**
+   * Add the current tab to the group titled request.name, creating the
+   * group when the window has no group with that title.
+   */
+  static tabGroup(context: ActionContext): void {
+    const tab = context.sender.tab;
+    if (!tab?.id) return;
+    const name = context.request.name || '';
+
+    chrome.tabGroups.query({ windowId: tab.windowId }, (groups) => {
+      const group = name ? groups.find((e) => e.title === name) : undefined;
+      if (group) {
+        chrome.tabs.group({ groupId: group.id, tabIds: tab.id! });
+        return;
+      }
+      chrome.tabs.group({
+        tabIds: tab.id!,
+        createProperties: { windowId: tab.windowId }
+      }, (groupId) => {
+        if (name) {
+          chrome.tabGroups.update(groupId, { title: name });
+        }
+      });
+    });
+  }
+
+  static tabUngroup(context: ActionContext): void {
+    if (!context.sender.tab?.id) return;
+    chrome.tabs.ungroup(context.sender.tab.id);
+  }
+
+  /**
+   * Toggle the collapsed state of the group titled request.name, or of the
+   * current tab's group when no name is given.
+   */
+  static tabGroupCollapse(context: ActionContext): void {
+    const tab = context.sender.tab;
+    if (!tab) return;
+    const name = context.request.name;
+
+    chrome.tabGroups.query({ windowId: tab.windowId }, (groups) => {
+      const group = groups.find((e) => {
+        return name ? e.title === name : e.id === tab.groupId;
+      });
+      context.callback(!!group);
+      if (group) {
+        chrome.tabGroups.update(group.id, { collapsed: !group.collapsed });
+      }
+    });
+  }
+
+  static getTabGroups(context: ActionContext): void {
+    const tab = context.sender.tab;
+    if (!tab) return;
+    chrome.tabGroups.query({ windowId: tab.windowId }, (groups) => {
+      chrome.tabs.query({ windowId: tab.windowId }, (tabs) => {
+        context.callback(groups.map((group) => {
+          const count = tabs.filter((e) => e.groupId === group.id).length;
+          return [
+            group.title || '',
+            `${group.color}, ${count} tab${count === 1 ? '' : 's'}` +
+              (group.collapsed ? ', collapsed' : '')
+          ];
+        }));
+      });
+    });
+  }
+
+  /**
+   * Activate the first tab of the group count groups after (or before) the
+   * current tab's group, wrapping around the window's tab strip.
+   */
+  private static switchTabGroup(context: ActionContext, reverse: boolean): void {
+    const tab = context.sender.tab;
+    if (!tab) return;
+    const count = context.request.repeats || 1;
+
+    chrome.tabs.query({ windowId: tab.windowId }, (tabs) => {
+      const groupIds: number[] = [];
+      const firstTabs: chrome.tabs.Tab[] = [];
+      tabs.sort((a, b) => a.index - b.index).forEach((e) => {
+        if (e.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE &&
+          groupIds.indexOf(e.groupId) === -1) {
+          groupIds.push(e.groupId);
+          firstTabs.push(e);
+        }
+      });
+      if (!firstTabs.length) return;
+
+      let current = groupIds.indexOf(tab.groupId);
+      if (current === -1) {
+        // An ungrouped tab sits between the groups on either side of it
+        const before = firstTabs.filter((e) => e.index < tab.index).length;
+        current = reverse ? before : before - 1;
+      }
+      const offset = reverse ? -count : count;
+      const target = ((current + offset) % firstTabs.length + firstTabs.length) %
+        firstTabs.length;
+      const targetTab = firstTabs[target];
+      if (targetTab?.id) {
+        chrome.tabs.update(targetTab.id, { active: true });
+      }
+    });
+  }
+
+  static nextTabGroup(context: ActionContext): void {
+    Actions.switchTabGroup(context, false);
+  }
+
+  static previousTabGroup(context: ActionContext): void {
+    Actions.switchTabGroup(context, true);
+  }
+
+  static batchCloseTabs(context: ActionContext): void {
+    const tabIds = context.request.tabIds || [];
+    if (tabIds.length) {
+      chrome.tabs.remove(tabIds);
+    }
+  }
+
+  /**
+   * Move the given tabs to the end of the current window, or to a new
+   * window when request.newWindow is set.
+   */
+  static batchMoveTabs(context: ActionContext): void {
+    const tabIds = context.request.tabIds || [];
+    if (!tabIds.length) return;
+
+    if (context.request.newWindow) {
+      chrome.windows.create({ tabId: tabIds[0] }, (window) => {
+        if (window?.id !== undefined && tabIds.length > 1) {
+          chrome.tabs.move(tabIds.slice(1), { windowId: window.id, index: -1 });
+        }
+      });
+      return;
+    }
+    if (context.sender.tab) {
+      chrome.tabs.move(tabIds, { windowId: context.sender.tab.windowId, index: -1 });
+    }
+  }
+
+  static batchPinTabs(context: ActionContext): void {
+    const pinned = context.request.pinned !== false;
+    (context.request.tabIds || []).forEach((id) => {
+      chrome.tabs.update(id, { pinned });
+    });
+  }
+
+  static batchMuteTabs(context: ActionContext): void {
+    const muted = context.request.muted !== false;
+    (context.request.tabIds || []).forEach((id) => {
+      chrome.tabs.update(id, { muted });
+    });
+  }
+
+  static batchReloadTabs(context: ActionContext): void {
+    (context.request.tabIds || []).forEach((id) => {
+      chrome.tabs.reload(id);
+    });
+  }
+
+  static batchBookmarkTabs(context: ActionContext): void {
+    (context.request.tabIds || []).forEach((id) => {
+      chrome.tabs.get(id, (tab) => {
+        if (tab.url) {
+          chrome.bookmarks.create({ title: tab.title || tab.url, url: tab.url });
+        }
+      });
+    });
+  }
+
   static copy(context: ActionContext): void {
-    if (context.request.text) {
+    if (!context.request.text) return;
+
+    if (context.request.register) {
+      Actions.setRegister(context.request.register, context.request.text,
+        context.request.append);
+    } else {
       Clipboard.copy(context.request.text);
     }
   }
 
+  /**
+   * Store text in a named register. Uppercase register names append to
+   * the contents of their lowercase counterpart.
+   */
+  private static setRegister(name: string, text: string, append?: boolean): void {
+    const key = name.toLowerCase();
+    if ((append || name !== key) && registers[key]) {
+      registers[key] += '\n' + text;
+    } else {
+      registers[key] = text;
+    }
+    chrome.storage.local.set({ registers });
+  }
+
+  /**
+   * Read a named register, falling back to the system clipboard when no
+   * register is given.
+   */
+  private static getRegister(name?: string): string | null {
+    if (name) {
+      return registers[name.toLowerCase()] || null;
+    }
+    return Clipboard.paste();
+  }
+
+  static getRegisters(context: ActionContext): void {
+    context.callback(registers);
+  }
+
   static goToTab(context: ActionContext): void {
     const { id, index } = context.request;
     
@@ -651,7 +1093,7 @@ class Actions {
   }
 
   static openPasteTab(context: ActionContext): void {
-    const paste = Clipboard.paste();
+    const paste = Actions.getRegister(context.request.register);
     if (!paste) return;
 
     const urls = paste.split('\n').filter((line) => line.trim());
@@ -678,7 +1120,7 @@ class Actions {
   }
 
   static openPaste(context: ActionContext): void {
-    const paste = Clipboard.paste();
+    const paste = Actions.getRegister(context.request.register);
     if (!paste) return;
 
     const url = paste.split('\n')[0];
@@ -690,7 +1132,7 @@ class Actions {
   }
 
   static getPaste(context: ActionContext): void {
-    context.callback(Clipboard.paste());
+    context.callback(Actions.getRegister(context.request.register));
   }
 
   static createSession(context: ActionContext): boolean {
@@ -838,6 +1280,100 @@ class Actions {
     });
   }
 
+  static setMark(context: ActionContext): void {
+    const { name, position } = context.request;
+    const url = context.sender.tab?.url;
+    if (!name || !position || !url) return;
+
+    if (/^[A-Z]$/.test(name)) {
+      scrollMarks.global[name] = { url, position, anchor: context.request.anchor };
+    } else {
+      scrollMarks.local[url] = scrollMarks.local[url] || {};
+      scrollMarks.local[url][name] = position;
+    }
+    chrome.storage.local.set({ marks: scrollMarks });
+  }
+
+  /**
+   * Jump to a mark. Global marks focus the tab showing the marked URL (or
+   * open a new one) before restoring the scroll position.
+   */
+  static goToMark(context: ActionContext): void {
+    const name = context.request.name;
+    const tab = context.sender.tab;
+    if (!name || !tab?.id) return;
+
+    if (!/^[A-Z]$/.test(name)) {
+      const position = scrollMarks.local[tab.url || '']?.[name];
+      context.callback(!!position);
+      if (position) {
+        Actions.restoreMark(tab.id, position);
+      }
+      return;
+    }
+
+    const mark = scrollMarks.global[name];
+    context.callback(!!mark);
+    if (!mark) return;
+
+    chrome.tabs.query({}, (tabs) => {
+      const markTab = tabs.find((e) => e.url === mark.url);
+      if (markTab?.id) {
+        chrome.windows.update(markTab.windowId, { focused: true });
+        chrome.tabs.update(markTab.id, { active: true }, () => {
+          Actions.restoreMark(markTab.id!, mark.position, mark.anchor);
+        });
+        return;
+      }
+      chrome.tabs.create({ url: mark.url }, (newTab) => {
+        const onUpdated = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+          if (tabId !== newTab.id || changeInfo.status !== 'complete') return;
+          chrome.tabs.onUpdated.removeListener(onUpdated);
+          Actions.restoreMark(tabId, mark.position, mark.anchor);
+        };
+        chrome.tabs.onUpdated.addListener(onUpdated);
+      });
+    });
+  }
+
+  private static restoreMark(tabId: number, position: [number, number], anchor?: string): void {
+    chrome.tabs.sendMessage(tabId, {
+      action: 'restoreMark',
+      position,
+      anchor
+    }, { frameId: 0 });
+  }
+
+  static getMarkList(context: ActionContext): void {
+    const local = scrollMarks.local[context.sender.tab?.url || ''] || {};
+    context.callback(Object.keys(local).sort().map((name: string) => {
+      return [name, local[name], context.sender.tab!.url];
+    }).concat(Object.keys(scrollMarks.global).sort().map((name: string) => {
+      const mark = scrollMarks.global[name]!;
+      return [name, mark.position, mark.url];
+    })));
+  }
+
+  /**
+   * Delete the marks in request.names. An empty list deletes every
+   * lowercase mark of the current page.
+   */
+  static deleteMarks(context: ActionContext): void {
+    const url = context.sender.tab?.url || '';
+    const names = context.request.names || [];
+    if (!names.length) {
+      delete scrollMarks.local[url];
+    }
+    names.forEach((name) => {
+      if (/^[A-Z]$/.test(name)) {
+        delete scrollMarks.global[name];
+      } else if (scrollMarks.local[url]) {
+        delete scrollMarks.local[url][name];
+      }
+    });
+    chrome.storage.local.set({ marks: scrollMarks });
+  }
+
   static getChromeSessions(context: ActionContext): void {
     context.callback(Sessions.recentlyClosed);
   }
@@ -958,7 +1494,8 @@ class Actions {
         context.request.limit || 4,
         (results) => {
           context.callback({ type: 'history', history: results });
-        }
+        },
+        context.request.matcher
       );
     }
   }
@@ -974,6 +1511,17 @@ class Actions {
   }
 
   static getBuffers(context: ActionContext): void {
+    chrome.tabGroups.query({}, (groups) => {
+      Actions.sendBuffers(context, groups);
+    });
+  }
+
+  private static sendBuffers(context: ActionContext, groups: chrome.tabGroups.TabGroup[]): void {
+    const groupLabels: { [groupId: number]: string } = {};
+    groups.forEach((group) => {
+      groupLabels[group.id] = group.title || group.color;
+    });
+
     chrome.tabs.query({}, (tabs) => {
       const otherWindows: chrome.tabs.Tab[] = [];
       const currentWindowTabs = tabs.filter((tab) => {
@@ -990,6 +1538,10 @@ class Actions {
         if (settings.showtabindices) {
           title = title.replace(new RegExp(`^${(tab.index || 0) + 1} `), '');
         }
+        const group = groupLabels[tab.groupId];
+        if (group !== undefined) {
+          title = `[${group}] ${title}`;
+        }
         return [`${index + 1}: ${title}`, tab.url, tab.id];
       });
 
@@ -1127,7 +1679,7 @@ class Actions {
     if (context.request.config) {
       context.callback({
         type: 'parseRC',
-        config: RCParser.parse(context.request.config)
+        config: RCParser.parse(context.request.config, { profile: settings.PROFILE })
       });
     }
   }
@@ -1194,7 +1746,11 @@ class Actions {
   static yankWindowUrls(context: ActionContext): void {
     chrome.tabs.query({ currentWindow: true }, (tabs) => {
       const urls = tabs.map((tab) => tab.url || '').join('\n');
-      Clipboard.copy(urls);
+      if (context.request.register) {
+        Actions.setRegister(context.request.register, urls);
+      } else {
+        Clipboard.copy(urls);
+      }
       context.callback(tabs.length);
     });
   }
@@ -1214,16 +1770,54 @@ class Actions {
     chrome.tabs.sendMessage(context.sender.tab.id, context.request);
   }
 
+  /**
+   * Lists the mappings of the frame the command bar was opened from, where
+   * the site blocks matching its URL apply, for :map
+   */
+  static getFrameMappings(context: ActionContext): boolean {
+    if (!context.sender.tab?.id) return false;
+
+    const frame = Frames.get(context.sender.tab.id);
+    chrome.tabs.sendMessage(context.sender.tab.id, {
+      action: context.request.action,
+      mode: context.request.mode,
+      prefix: context.request.prefix
+    }, { frameId: frame ? frame.focusedId : 0 }, (mappings) => {
+      context.callback(chrome.runtime.lastError ? [] : mappings);
+    });
+    return true;
+  }
+
+  /**
+   * Reads the selected word of the frame the command bar was opened from,
+   * for <C-r><C-w>
+   */
+  static getFrameSelection(context: ActionContext): boolean {
+    if (!context.sender.tab?.id) return false;
+
+    const frame = Frames.get(context.sender.tab.id);
+    chrome.tabs.sendMessage(context.sender.tab.id, {
+      action: context.request.action
+    }, { frameId: frame ? frame.focusedId : 0 }, (word) => {
+      context.callback(chrome.runtime.lastError ? '' : word);
+    });
+    return true;
+  }
+
   static loadLocalConfig(context: ActionContext): boolean {
     const path = context.request.path || 
       `file://${settings.configpath.split('~').join(settings.homedirectory || '~')}`;
     
-    httpRequest({ url: path }).then((data) => {
-      const parsed = parseConfig(data);
+    httpRequest({ url: path }).then(async (data) => {
+      const expanded = await Sources.expand(data, path, settings.homedirectory || '');
+      const parsed = parseConfig(expanded.text, { profile: settings.PROFILE });
       
       if (parsed.error) {
-        console.error('parse error on line %d of cVimrc: %s',
-          parsed.error.lineno, parsed.error.message);
+        const origin = Sources.locate(expanded, parsed.error.lineno);
+        parsed.error.file = origin[0];
+        parsed.error.lineno = origin[1];
+        console.error('parse error on line %d, column %d of %s: %s',
+          parsed.error.lineno, parsed.error.column, origin[0], parsed.error.message);
         context.callback({
           code: -2,
           error: parsed.error,
@@ -1233,6 +1827,8 @@ class Actions {
       }
       
       const added = parsed.value;
+      Sources.locateMappings(expanded, added);
+      added.RC = data;
       added.localconfig = added.localconfig || false;
       const oldSettings = Object.clone(settings);
       const settingsClone = Object.clone(defaultSettings);
@@ -41,6 +41,7 @@ interface SearchArrayFunction {
     search: string;
     limit: number;
     fn: (item: any) => string;
+    matcher?: string;
   }): any[];
 }
 
@@ -381,8 +382,9 @@ class HistoryManager {
    * @param search Search term to filter history
    * @param limit Maximum number of results to return
    * @param callback Function to call with search results
+   * @param matcher Completion matcher ('substring', 'fuzzy' or 'regex')
    */
-  retrieveSearchHistory(search: string, limit: number, callback: (results: chrome.history.HistoryItem[], fromCache?: boolean) => void): void {
+  retrieveSearchHistory(search: string, limit: number, callback: (results: chrome.history.HistoryItem[], fromCache?: boolean) => void, matcher?: string): void {
     if (typeof search !== 'string') {
       console.error('HistoryManager.retrieveSearchHistory: Search term must be a string');
       callback([], false);
@@ -418,7 +420,8 @@ class HistoryManager {
         limit: limit,
         fn: (item: chrome.history.HistoryItem) => {
           return (item.title || '') + ' ' + (item.url || '');
-        }
+        },
+        matcher: matcher
       });
 
       callback(results, true);
@@ -546,8 +549,8 @@ const HistoryLegacy = {
   append: (value: string | number, type: string) => History.append(value, type),
   retrieve: (type: string) => History.retrieve(type),
   refreshStore: () => History.refreshStoreSync(),
-  retrieveSearchHistory: (search: string, limit: number, callback: (results: chrome.history.HistoryItem[], fromCache?: boolean) => void) => 
-    History.retrieveSearchHistory(search, limit, callback)
+  retrieveSearchHistory: (search: string, limit: number, callback: (results: chrome.history.HistoryItem[], fromCache?: boolean) => void, matcher?: string) => 
+    History.retrieveSearchHistory(search, limit, callback, matcher)
 };
 
 // Export for global usage (maintaining compatibility with existing code)
@@ -554,6 +554,18 @@ class MainController {
           state: 0
         };
       }
+
+      // Same-document navigations don't reload the content scripts, so let
+      // the page know for its Navigate autocommands
+      chrome.tabs.sendMessage(tabId, {
+        action: 'autocmdNavigate',
+        url: changeInfo.url
+      }, { frameId: 0 }, () => {
+        // Ignore chrome.runtime.lastError for pages that are still loading
+        if (chrome.runtime.lastError) {
+          console.debug(`MainController.handleTabUpdated: Could not send message to tab ${tabId}`);
+        }
+      });
     }
   }
 
@@ -33,6 +33,13 @@ interface SearchAliases {
   [alias: string]: string;
 }
 
+/**
+ * Recorded keyboard macros, keyed by register
+ */
+interface Macros {
+  [register: string]: string;
+}
+
 /**
  * Function definitions for RC configuration
  */
@@ -46,12 +53,14 @@ interface RCFunctions {
 interface Settings {
   // Numeric settings
   searchlimit: number;
+  completionmatcher: string;
   scrollstep: number;
   fullpagescrollpercent: number;
   typelinkhintsdelay: number;
   scrollduration: number;
   zoomfactor: number;
   timeoutlen: number;
+  whichkeydelay: number;
   vimport: number;
 
   // Object settings
@@ -59,10 +68,12 @@ interface Settings {
   sites: SiteConfig;
   searchengines: SearchEngines;
   searchaliases: SearchAliases;
+  macros: Macros;
   FUNCTIONS: RCFunctions;
 
   // Boolean settings
   hud: boolean;
+  whichkey: boolean;
   regexp: boolean;
   scalehints: boolean;
   linkanimations: boolean;
@@ -97,11 +108,14 @@ interface Settings {
   langmap: string;
   nextmatchpattern: string;
   previousmatchpattern: string;
+  urlincrementpattern: string;
   barposition: string;
   RC: string;
   MAPPINGS: string;
+  MAPPINGORIGINS: [string, number, string?][];
   GISTURL: string;
   COMMANDBARCSS: string;
+  PROFILE: string;
 
   // Array settings
   completionengines: string[];
@@ -122,6 +136,8 @@ type PartialSettings = Partial<Settings>;
 interface SettingsSaveRequest {
   settings: Settings;
   sendSettings?: boolean;
+  /** The settings were saved from the options page and drop the :let values */
+  replace?: boolean;
 }
 
 /**
@@ -170,11 +186,118 @@ interface StorageChanges {
   [key: string]: StorageChange;
 }
 
+/**
+ * Value types of user-configurable settings
+ */
+type SettingType = 'boolean' | 'number' | 'string' | 'regexp' | 'array' | 'object';
+
+/**
+ * Settings schema entry. Values are checked against the type and the
+ * optional constraints when set from the command bar or the cVimrc.
+ */
+interface SettingSchema {
+  type: SettingType;
+  /** Allowed values of a string setting */
+  values?: string[];
+  min?: number;
+  max?: number;
+  /** Pattern a string setting must match, described by patternDescription */
+  pattern?: RegExp;
+  patternDescription?: string;
+}
+
+/**
+ * Schema entry sent to content scripts for :set and :let completion
+ */
+interface SettingSchemaInfo {
+  type: SettingType;
+  values?: string[];
+  default: any;
+}
+
+/**
+ * Schema of every setting that can be changed with set/let. Uppercase
+ * settings (RC, MAPPINGS, ...) and site blocks are managed internally.
+ */
+const SETTINGS_SCHEMA: { [name: string]: SettingSchema } = {
+  searchlimit: { type: 'number', min: 1 },
+  completionmatcher: { type: 'string', values: ['substring', 'fuzzy', 'regex'] },
+  scrollstep: { type: 'number', min: 0 },
+  fullpagescrollpercent: { type: 'number', min: 0, max: 100 },
+  typelinkhintsdelay: { type: 'number', min: 0 },
+  scrollduration: { type: 'number', min: 0 },
+  zoomfactor: { type: 'number', min: 0 },
+  timeoutlen: { type: 'number', min: 0 },
+  whichkeydelay: { type: 'number', min: 0 },
+  vimport: { type: 'number', min: 1, max: 65535 },
+
+  qmarks: { type: 'object' },
+  searchengines: { type: 'object' },
+  searchaliases: { type: 'object' },
+  macros: { type: 'object' },
+
+  hud: { type: 'boolean' },
+  whichkey: { type: 'boolean' },
+  regexp: { type: 'boolean' },
+  scalehints: { type: 'boolean' },
+  linkanimations: { type: 'boolean' },
+  sortlinkhints: { type: 'boolean' },
+  ignorecase: { type: 'boolean' },
+  numerichints: { type: 'boolean' },
+  cncpcompletion: { type: 'boolean' },
+  smartcase: { type: 'boolean' },
+  incsearch: { type: 'boolean' },
+  autohidecursor: { type: 'boolean' },
+  typelinkhints: { type: 'boolean' },
+  autofocus: { type: 'boolean' },
+  insertmappings: { type: 'boolean' },
+  defaultnewtabpage: { type: 'boolean' },
+  dimhintcharacters: { type: 'boolean' },
+  smoothscroll: { type: 'boolean' },
+  autoupdategist: { type: 'boolean' },
+  nativelinkorder: { type: 'boolean' },
+  showtabindices: { type: 'boolean' },
+  changelog: { type: 'boolean' },
+  localconfig: { type: 'boolean' },
+  completeonopen: { type: 'boolean' },
+  debugcss: { type: 'boolean' },
+
+  configpath: { type: 'string' },
+  locale: { type: 'string' },
+  mapleader: { type: 'string' },
+  defaultengine: { type: 'string' },
+  hintcharacters: {
+    type: 'string',
+    pattern: /^[a-zA-Z0-9]{2,}$/,
+    patternDescription: 'at least two letters or digits'
+  },
+  homedirectory: { type: 'string' },
+  langmap: { type: 'string' },
+  nextmatchpattern: { type: 'regexp' },
+  previousmatchpattern: { type: 'regexp' },
+  urlincrementpattern: { type: 'regexp' },
+  barposition: { type: 'string', values: ['top', 'bottom'] },
+
+  completionengines: { type: 'array' },
+  blacklists: { type: 'array' }
+};
+
+/**
+ * The singular names cVimrc uses to add one entry to an object setting
+ * (`let searchengine name = "..."`)
+ */
+const OBJECT_SETTING_NAMES: { [name: string]: string } = {
+  qmarks: 'qmark',
+  searchengines: 'searchengine',
+  searchaliases: 'searchalias',
+  macros: 'macro'
+};
+
 /**
  * RC Parser interface (external dependency)
  */
 interface RCParser {
-  parse: (rcContent: string) => Settings;
+  parse: (rcContent: string, options?: { profile?: string }) => Settings;
 }
 
 /**
@@ -199,11 +322,20 @@ interface HttpRequestFunction {
   (options: { url: string }): Promise<string>;
 }
 
+/**
+ * Sources interface (external dependency)
+ */
+interface SourcesModule {
+  expand(text: string, base: string, homedirectory: string): Promise<{ text: string }>;
+  locateMappings(expanded: { text: string }, config: any): void;
+}
+
 // Global declarations for external dependencies
 declare var Utils: UtilsModule;
 declare var Quickmarks: QuickmarksModule;
 declare var RCParser: RCParser;
 declare var httpRequest: HttpRequestFunction;
+declare var Sources: SourcesModule;
 declare var activePorts: chrome.runtime.Port[];
 
 /**
@@ -219,6 +351,12 @@ class OptionsManager {
   
   /** Current settings object */
   public settings: Settings;
+
+  /**
+   * Stored values of the settings changed by `:let` without `!`, saved in
+   * place of their runtime values
+   */
+  public unsavedSettings: { [key: string]: any } = {};
   
   /** Default settings configuration */
   public readonly defaultSettings: Readonly<Settings>;
@@ -244,12 +382,14 @@ class OptionsManager {
     return {
       // Numeric settings
       searchlimit: 25,
+      completionmatcher: 'substring',
       scrollstep: 70,
       fullpagescrollpercent: 0,
       typelinkhintsdelay: 300,
       scrollduration: 500,
       zoomfactor: 0.10,
       timeoutlen: 1000,
+      whichkeydelay: 500,
       vimport: 8001,
 
       // Object settings
@@ -257,10 +397,12 @@ class OptionsManager {
       sites: {},
       searchengines: {},
       searchaliases: {},
+      macros: {},
       FUNCTIONS: {},
 
       // Boolean settings
       hud: true,
+      whichkey: true,
       regexp: true,
       scalehints: false,
       linkanimations: false,
@@ -295,10 +437,13 @@ class OptionsManager {
       langmap: '',
       nextmatchpattern: '((?!first)(next|older|more|>|›|»|forward| )+)',
       previousmatchpattern: '((?!last)(prev(ious)?|newer|back|«|less|<|‹| )+)',
+      urlincrementpattern: '',
       barposition: 'top',
       RC: '',
       MAPPINGS: '',
+      MAPPINGORIGINS: [],
       GISTURL: '',
+      PROFILE: '',
 
       // Array settings
       completionengines: ['google', 'duckduckgo', 'wikipedia', 'amazon'],
@@ -397,6 +542,10 @@ class OptionsManager {
   width: 57%;
 }
 
+.cVim-completion-item .cVim-completion-match {
+  color: #ffd76e;
+}
+
 
 #cVim-link-container, .cVim-link-hint,
 #cVim-hud, #cVim-status-bar {
@@ -434,6 +583,10 @@ class OptionsManager {
   text-transform: uppercase !important;
 }
 
+.cVim-link-hint_best {
+  background-color: #ffb347 !important;
+}
+
 
 #cVim-hud {
   background-color: rgba(28,28,28,0.9);
@@ -507,6 +660,220 @@ class OptionsManager {
     }
   }
 
+  /**
+   * Checks a setting value against the settings schema
+   * 
+   * @param name Setting name
+   * @param value New value of the setting
+   * @returns An error message, or null when the value is valid
+   */
+  validateSetting(name: string, value: any): string | null {
+    if (!SETTINGS_SCHEMA.hasOwnProperty(name)) {
+      return 'unknown option: ' + name;
+    }
+    const schema = SETTINGS_SCHEMA[name]!;
+    const describe = (e: any): string => {
+      if (Array.isArray(e)) return 'an array';
+      if (e === null || e === undefined) return 'nothing';
+      return (typeof e === 'object' ? 'an ' : 'a ') + typeof e;
+    };
+    const isStringList = (e: any): boolean => Array.isArray(e) &&
+      e.every((item: any) => typeof item === 'string');
+    const expected = schema.type === 'regexp' ? 'string' : schema.type;
+
+    if (expected === 'array' ? !isStringList(value) :
+        expected === 'object' ? describe(value) !== 'an object' :
+        typeof value !== expected) {
+      return name + ': expected ' + (expected === 'array' ? 'an array of strings' :
+        (expected === 'object' ? 'an ' : 'a ') + expected) + ', got ' + describe(value);
+    }
+    if (expected === 'object') {
+      for (const key in value) {
+        if (typeof value[key] !== 'string' && !isStringList(value[key])) {
+          return name + ' ' + key + ': expected a string, got ' + describe(value[key]);
+        }
+      }
+    }
+    if (schema.values && schema.values.indexOf(value) === -1) {
+      return name + ': expected one of ' + schema.values.map((e) => '"' + e + '"').join(', ') +
+        ', got "' + value + '"';
+    }
+    if (schema.min !== undefined && value < schema.min) {
+      return name + ': ' + value + ' is less than the minimum of ' + schema.min;
+    }
+    if (schema.max !== undefined && value > schema.max) {
+      return name + ': ' + value + ' is greater than the maximum of ' + schema.max;
+    }
+    if (schema.pattern && !schema.pattern.test(value)) {
+      return name + ': expected ' + schema.patternDescription + ', got "' + value + '"';
+    }
+    if (schema.type === 'regexp') {
+      try {
+        new RegExp(value);
+      } catch (error) {
+        return name + ': invalid regular expression "' + value + '"';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Checks the known settings of a parsed cVimrc, including its site blocks
+   * 
+   * @param config Parsed cVimrc
+   * @returns Error messages for the invalid settings
+   */
+  checkConfig(config: { [key: string]: any }): string[] {
+    const errors: string[] = [];
+    for (const key in config) {
+      if (SETTINGS_SCHEMA.hasOwnProperty(key)) {
+        const error = this.validateSetting(key, config[key]);
+        if (error !== null) {
+          errors.push(error);
+        }
+      }
+    }
+    for (const site in config.sites || {}) {
+      this.checkConfig(config.sites[site]).forEach((error) => {
+        errors.push('site \'' + site + '\': ' + error);
+      });
+    }
+    return errors;
+  }
+
+  /**
+   * Describes every setting in the schema for command bar completion
+   * 
+   * @returns Type, allowed values and default value keyed by setting name
+   */
+  getSettingsSchema(): { [name: string]: SettingSchemaInfo } {
+    const result: { [name: string]: SettingSchemaInfo } = {};
+    for (const name in SETTINGS_SCHEMA) {
+      result[name] = {
+        type: SETTINGS_SCHEMA[name]!.type,
+        values: SETTINGS_SCHEMA[name]!.values,
+        default: (this.defaultSettings as any)[name]
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Writes settings back out as cVimrc text. Top-level settings are only
+   * included when they differ from their default.
+   * 
+   * @param config Settings to serialize, the current settings by default
+   * @returns cVimrc text that parses back into the same settings
+   */
+  serializeSettings(config: any = this.settings): string {
+    const lines = this.serializeScope(config, this.defaultSettings);
+    for (const site in config.sites || {}) {
+      lines.push('', 'site ' + this.serializeValue(site) + ' {');
+      this.serializeScope(config.sites[site], null).forEach((line) => {
+        lines.push(line && '  ' + line);
+      });
+      lines.push('}');
+    }
+    return lines.join('\n').replace(/^\n+/, '') + '\n';
+  }
+
+  /**
+   * Serializes the statements of one scope, in blocks separated by empty
+   * lines. Site scopes have no defaults, so every setting they hold is kept.
+   */
+  private serializeScope(scope: any, defaults: any): string[] {
+    const blocks: string[][] = [];
+    const changed = (name: string): boolean => {
+      return !defaults || JSON.stringify(scope[name]) !== JSON.stringify(defaults[name]);
+    };
+
+    const settingLines: string[] = [];
+    for (const name in SETTINGS_SCHEMA) {
+      if (!scope.hasOwnProperty(name) || !changed(name)) {
+        continue;
+      }
+      if (OBJECT_SETTING_NAMES.hasOwnProperty(name)) {
+        for (const key in scope[name]) {
+          const value = this.serializeValue(scope[name][key]);
+          // Keys are identifiers or numbers in the grammar
+          if (value !== null && /^([a-zA-Z_$][a-zA-Z_$0-9]*|[1-9][0-9]*)$/.test(key)) {
+            settingLines.push('let ' + OBJECT_SETTING_NAMES[name] + ' ' + key + ' = ' + value);
+          }
+        }
+      } else if (typeof scope[name] === 'boolean') {
+        settingLines.push('set ' + (scope[name] ? '' : 'no') + name);
+      } else {
+        const value = this.serializeValue(scope[name]);
+        if (value !== null) {
+          settingLines.push('let ' + name + ' = ' + value);
+        }
+      }
+    }
+    blocks.push(settingLines);
+
+    const filters = scope.HINTFILTERS || {};
+    const filterLines: string[] = [];
+    ['accept', 'reject'].forEach((type) => {
+      if (filters[type]?.length) {
+        filterLines.push('hint' + type + ' ' + filters[type].map((selector: string) => {
+          return this.serializeValue(selector);
+        }).join(' '));
+      }
+    });
+    ['next', 'prev'].forEach((type) => {
+      if (filters[type]) {
+        filterLines.push(type + 'pattern ' + this.serializeValue(filters[type]));
+      }
+    });
+    blocks.push(filterLines);
+
+    blocks.push(Object.keys(scope.COMMANDS || {}).map((name) => {
+      return 'command ' + name + ' ' + scope.COMMANDS[name];
+    }));
+
+    blocks.push((scope.AUTOCMDS || []).map((autocmd: any) => {
+      return ['autocmd', autocmd.group, autocmd.events.join(','),
+        this.serializeValue(autocmd.pattern), autocmd.command].filter(Boolean).join(' ');
+    }));
+
+    blocks.push((scope.MAPPINGS || '').split('\n').filter((line: string) => line.trim()));
+
+    const functions: string[] = [];
+    for (const name in scope.FUNCTIONS || {}) {
+      const match = String(scope.FUNCTIONS[name]).match(/^\(function\(([^)]*)\)\{([\s\S]*)\}\)$/);
+      if (match) {
+        // The parser drops the line breaks that follow {{
+        functions.push(name + '(' + match[1]!.split(',').join(', ') + ') -> {{\n' + match[2] + '}}');
+      }
+    }
+    for (const index in scope.AUTOFUNCTIONS || {}) {
+      functions.push('-> {{\n' + scope.AUTOFUNCTIONS[index] + '}}');
+    }
+    blocks.push(functions);
+
+    return blocks.filter((block) => block.length).reduce((lines: string[], block) => {
+      return lines.concat(lines.length ? [''] : [], block);
+    }, []);
+  }
+
+  /**
+   * Formats a value as a cVimrc expression, or returns null for values the
+   * grammar cannot express (objects and negative numbers)
+   */
+  private serializeValue(value: any): string | null {
+    if (typeof value === 'string') {
+      return '"' + value.replace(/["\\]/g, '\\$&') + '"';
+    }
+    if (typeof value === 'number') {
+      return value >= 0 && isFinite(value) ? String(value) : null;
+    }
+    if (Array.isArray(value)) {
+      const values = value.map((e) => this.serializeValue(e));
+      return values.indexOf(null) === -1 ? '[' + values.join(', ') + ']' : null;
+    }
+    return null;
+  }
+
   /**
    * Saves settings to Chrome storage
    * 
@@ -521,6 +888,9 @@ class OptionsManager {
       if ('settings' in request && typeof request === 'object') {
         settingsData = request.settings;
         shouldSendSettings = request.sendSettings || false;
+        if (request.replace) {
+          this.unsavedSettings = {};
+        }
       } else {
         settingsData = request as Settings;
       }
@@ -540,7 +910,7 @@ class OptionsManager {
       await this.refreshSettings();
       
       // Save to Chrome storage
-      await chrome.storage[this.storageMethod].set({ settings: this.settings });
+      await chrome.storage[this.storageMethod].set({ settings: this.storedSettings() });
 
       if (shouldSendSettings) {
         await this.sendSettings();
@@ -553,6 +923,14 @@ class OptionsManager {
     }
   }
 
+  /**
+   * The settings to store, without the changes of `:let` statements that
+   * were not asked to persist
+   */
+  private storedSettings(): Settings {
+    return Object.assign({}, this.settings, this.unsavedSettings);
+  }
+
   /**
    * Legacy synchronous version of saveSettings for backward compatibility
    * 
@@ -566,6 +944,9 @@ class OptionsManager {
     if ('settings' in request && typeof request === 'object') {
       settingsData = request.settings;
       shouldSendSettings = request.sendSettings || false;
+      if (request.replace) {
+        this.unsavedSettings = {};
+      }
     } else {
       settingsData = request as Settings;
     }
@@ -583,7 +964,7 @@ class OptionsManager {
     }
 
     this.refreshSettingsSync(() => {
-      chrome.storage[this.storageMethod].set({ settings: this.settings }, () => {
+      chrome.storage[this.storageMethod].set({ settings: this.storedSettings() }, () => {
         if (chrome.runtime.lastError) {
           console.error('OptionsManager.saveSettingsSync: Error saving settings:', chrome.runtime.lastError);
         } else if (shouldSendSettings) {
@@ -863,11 +1244,14 @@ class OptionsManager {
          this.settings.GISTURL.indexOf('github') !== -1 ? '/raw' : '');
 
       const response = await httpRequest({ url });
+      // Relative `source` paths in the gist resolve against its raw URL
+      const expanded = await Sources.expand(response, url, this.settings.homedirectory);
 
       let updated: Partial<Settings>;
       try {
         if (typeof RCParser !== 'undefined') {
-          updated = RCParser.parse(response);
+          updated = RCParser.parse(expanded.text, { profile: this.settings.PROFILE });
+          Sources.locateMappings(expanded, updated);
         } else {
           console.error('OptionsManager.fetchGist: RCParser not available');
           return;
@@ -918,10 +1302,13 @@ class OptionsManager {
        this.settings.GISTURL.indexOf('github') !== -1 ? '/raw' : '');
 
     httpRequest({ url }).then((response: string) => {
+      return Sources.expand(response, url, this.settings.homedirectory);
+    }).then((expanded) => {
       let updated: Partial<Settings>;
       try {
         if (typeof RCParser !== 'undefined') {
-          updated = RCParser.parse(response);
+          updated = RCParser.parse(expanded.text, { profile: this.settings.PROFILE });
+          Sources.locateMappings(expanded, updated);
         } else {
           console.error('OptionsManager.fetchGistSync: RCParser not available');
           return;
@@ -1191,7 +1578,14 @@ const optionsLegacy = {
   getAllSettings: (request: any, sender: chrome.runtime.MessageSender, callback: (response: AllSettingsResponse) => void) =>
     Options.getAllSettings(request, sender, callback),
   updateBlacklistsMappings: () => Options.updateBlacklistsMappingsSync(),
-  fetchGist: () => Options.fetchGistSync()
+  fetchGist: () => Options.fetchGistSync(),
+  validateSetting: (name: string, value: any) => Options.validateSetting(name, value),
+  checkConfig: (config: { [key: string]: any }) => Options.checkConfig(config),
+  getSettingsSchema: () => Options.getSettingsSchema(),
+  serializeSettings: (config?: any) => Options.serializeSettings(config),
+  get unsavedSettings() {
+    return Options.unsavedSettings;
+  }
 };
 
 // Export for global usage (maintaining compatibility with existing code)
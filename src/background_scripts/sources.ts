@@ -0,0 +1,304 @@
+// Chrome Extension Sources - `source` includes for the cVimrc
+
+/**
+ * HTTP request function interface
+ */
+interface HttpRequestFunction {
+  (options: { url: string }): Promise<string>;
+}
+
+/**
+ * A file loaded through a `source` statement
+ */
+interface SourcedFile {
+  /** The resolved URL of the file */
+  url: string;
+  /** The URL of the including file, '' for the cVimrc of the options page */
+  parent: string;
+  /** The line of the `source` statement in the including file */
+  line: number;
+  /** Whether the file was read, replaced by its last good contents, or skipped */
+  status: 'loaded' | 'cached' | 'error';
+  /** Why the file could not be read */
+  error?: string;
+}
+
+/**
+ * The file and line a line of an expanded cVimrc came from
+ */
+type SourceOrigin = [string, number];
+
+/**
+ * The file and line of a mapping statement, and the site block it is in
+ */
+type MappingOrigin = [string, number, string?];
+
+/**
+ * A cVimrc with its `source` statements replaced by the sourced files
+ */
+interface ExpandedConfig {
+  /** The combined text to hand to the parser */
+  text: string;
+  /** The origin of every line of text */
+  origins: SourceOrigin[];
+  /** Every file loaded by a `source` statement, in the order sourced */
+  files: SourcedFile[];
+}
+
+// Global httpRequest function declaration
+declare var httpRequest: HttpRequestFunction;
+
+/** Matches `source <path-or-url>`, with the path optionally quoted */
+const SOURCE_STATEMENT = /^\s*source\s+(?:"([^"]+)"|'([^']+)'|(\S+))\s*$/;
+
+/** Storage key of the last good contents of every sourced file */
+const SOURCE_CACHE_KEY = 'sourceCache';
+
+/** Storage key of the files loaded by the last expansion */
+const SOURCED_FILES_KEY = 'sourcedFiles';
+
+/**
+ * Sources manager class for expanding `source` statements in the cVimrc
+ *
+ * Sourced files are read from file:// or http(s):// URLs and spliced in
+ * place of their `source` statement before the cVimrc is parsed, so their
+ * settings and mappings apply in order. Paths are resolved relative to the
+ * including file. When a file can no longer be read, the contents from the
+ * last successful read are used instead.
+ */
+class SourcesManager {
+  /** Files loaded by the most recent expansion, listed by :sourced */
+  files: SourcedFile[] = [];
+
+  /** Last good contents of every sourced file, keyed by URL */
+  private cache: { [url: string]: string } = {};
+
+  /** Whether the cache and file list have been read from storage */
+  private cacheLoaded: boolean = false;
+
+  /**
+   * Resolves the path of a `source` statement against the including file
+   *
+   * @param path The path or URL given to `source`
+   * @param base The URL of the including file
+   * @param homedirectory Directory substituted for a leading ~
+   * @returns The absolute URL of the file
+   */
+  resolve(path: string, base: string, homedirectory: string): string {
+    if (/^~(\/|$)/.test(path)) {
+      if (!homedirectory) {
+        throw new Error('homedirectory is not set, cannot expand ~');
+      }
+      path = homedirectory.replace(/\/$/, '') + path.slice(1);
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(path)) {
+      return path;
+    }
+    if (!base) {
+      if (path.charAt(0) === '/') {
+        return `file://${path}`;
+      }
+      if (!homedirectory) {
+        throw new Error('relative path needs a base, set homedirectory');
+      }
+      base = `file://${homedirectory.replace(/\/$/, '')}/`;
+    }
+    return new URL(path, base).href;
+  }
+
+  /**
+   * Replaces every `source` statement with the contents of the sourced
+   * file, recursively. The files loaded are remembered for :sourced.
+   *
+   * @param text The cVimrc to expand
+   * @param base The URL of the cVimrc, '' when it has no file
+   * @param homedirectory Directory substituted for a leading ~
+   * @returns The expanded cVimrc
+   */
+  async expand(text: string, base: string, homedirectory: string): Promise<ExpandedConfig> {
+    await this.loadCache();
+
+    const expanded: ExpandedConfig = { text: '', origins: [], files: [] };
+    const lines: string[] = [];
+    await this.expandFile(text, base, [base], homedirectory, lines, expanded);
+    expanded.text = lines.join('\n');
+
+    this.files = expanded.files;
+    this.saveCache();
+    return expanded;
+  }
+
+  /**
+   * Lists the files loaded by the most recent expansion. The list is read
+   * back from storage when the service worker was restarted since.
+   *
+   * @returns The files, in the order sourced
+   */
+  async getFiles(): Promise<SourcedFile[]> {
+    await this.loadCache();
+    return this.files;
+  }
+
+  /**
+   * Maps a line of an expanded cVimrc back to the file it came from
+   *
+   * @param expanded The expanded cVimrc
+   * @param line The 1-based line in the expanded text
+   * @returns The file URL ('' for the cVimrc itself) and 1-based line
+   */
+  locate(expanded: ExpandedConfig, line: number): SourceOrigin {
+    return expanded.origins[line - 1] || ['', line];
+  }
+
+  /**
+   * Replaces the lines the parser recorded for the mappings of a config,
+   * and of its site blocks, with the file, line and site they came from
+   *
+   * @param expanded The expanded cVimrc the config was parsed from
+   * @param config The parsed config, changed in place
+   */
+  locateMappings(expanded: ExpandedConfig, config: any): void {
+    const locate = (scope: any, site?: string) => {
+      scope.MAPPINGORIGINS = (scope.MAPPINGORIGINS || []).map((line: number): MappingOrigin => {
+        const origin = this.locate(expanded, line);
+        return site === undefined ? origin : [origin[0], origin[1], site];
+      });
+    };
+    locate(config);
+    for (const site in config.sites || {}) {
+      locate(config.sites[site], site);
+    }
+  }
+
+  /**
+   * Appends the lines of one file to the expansion, descending into its
+   * `source` statements
+   */
+  private async expandFile(
+    text: string,
+    url: string,
+    stack: string[],
+    homedirectory: string,
+    lines: string[],
+    expanded: ExpandedConfig
+  ): Promise<void> {
+    const fileLines = text.split('\n');
+    let inJavaScript = false;
+
+    for (let i = 0; i < fileLines.length; i++) {
+      const line = fileLines[i]!;
+      const match = inJavaScript ? null : line.match(SOURCE_STATEMENT);
+
+      // `source` inside a {{ }} block is JavaScript, not a statement
+      if (/\{\{/.test(line) && !/\}\}/.test(line.slice(line.lastIndexOf('{{')))) {
+        inJavaScript = true;
+      } else if (inJavaScript && /\}\}/.test(line)) {
+        inJavaScript = false;
+      }
+
+      if (!match) {
+        lines.push(line);
+        expanded.origins.push([url, i + 1]);
+        continue;
+      }
+
+      // Keep the statement line so parse errors stay on the right line
+      lines.push('');
+      expanded.origins.push([url, i + 1]);
+
+      const file: SourcedFile = { url: '', parent: url, line: i + 1, status: 'error' };
+      const path = match[1] || match[2] || match[3]!;
+      try {
+        file.url = this.resolve(path, url, homedirectory);
+      } catch (error) {
+        file.url = path;
+        file.error = (error as Error).message;
+        expanded.files.push(file);
+        continue;
+      }
+      expanded.files.push(file);
+
+      if (stack.indexOf(file.url) !== -1) {
+        file.error = 'cycle: ' + stack.concat(file.url)
+          .filter((e) => e !== '').join(' -> ');
+        continue;
+      }
+
+      let contents: string;
+      try {
+        contents = await httpRequest({ url: file.url });
+        this.cache[file.url] = contents;
+        file.status = 'loaded';
+      } catch (error) {
+        file.error = error instanceof Error ? error.message : 'could not read file';
+        if (this.cache[file.url] === undefined) {
+          continue;
+        }
+        contents = this.cache[file.url]!;
+        file.status = 'cached';
+      }
+
+      await this.expandFile(contents, file.url, stack.concat(file.url),
+        homedirectory, lines, expanded);
+    }
+  }
+
+  /**
+   * Loads the last good contents of sourced files, and the files of the
+   * last expansion, from storage
+   */
+  private async loadCache(): Promise<void> {
+    if (this.cacheLoaded) {
+      return;
+    }
+    try {
+      const data = await chrome.storage.local.get([SOURCE_CACHE_KEY, SOURCED_FILES_KEY]);
+      this.cache = data[SOURCE_CACHE_KEY] || {};
+      this.files = data[SOURCED_FILES_KEY] || [];
+      this.cacheLoaded = true;
+    } catch (error) {
+      console.error('SourcesManager.loadCache: Failed to load cache:', error);
+    }
+  }
+
+  /**
+   * Stores the contents of files that are still sourced, dropping the rest,
+   * and the list of files for :sourced
+   */
+  private saveCache(): void {
+    const cache: { [url: string]: string } = {};
+    this.files.forEach((file) => {
+      if (this.cache[file.url] !== undefined) {
+        cache[file.url] = this.cache[file.url]!;
+      }
+    });
+    this.cache = cache;
+    chrome.storage.local.set({
+      [SOURCE_CACHE_KEY]: cache,
+      [SOURCED_FILES_KEY]: this.files
+    }).catch((error: Error) => {
+      console.error('SourcesManager.saveCache: Failed to save cache:', error);
+    });
+  }
+}
+
+// Create singleton instance
+const Sources = new SourcesManager();
+
+// Export for global usage (maintaining compatibility with existing code)
+if (typeof window !== 'undefined') {
+  (window as any).Sources = Sources;
+} else {
+  // Service worker context
+  (globalThis as any).Sources = Sources;
+}
+
+// Modern export for TypeScript modules
+export default Sources;
+export {
+  SourcesManager,
+  SourcedFile,
+  SourceOrigin,
+  MappingOrigin,
+  ExpandedConfig
+};
@@ -0,0 +1,168 @@
+// Autocommands run cVim commands when page events fire. They are defined in
+// the cVimrc with `autocmd [group] {events} {pattern} {command}` and at
+// runtime with the :autocmd command.
+
+declare const settings: any;
+declare const matchLocation: (url: string, pattern: string) => boolean;
+
+declare const Command: {
+  loaded?: boolean;
+  execute(value: string, repeats: number): void;
+};
+
+declare const Mappings: {
+  executeSequence(c: string, r?: string): void;
+};
+
+declare const DOM: {
+  isEditable(element: Element | null): boolean;
+};
+
+export type AutocmdEvent = 'PageLoad' | 'TabEnter' | 'TabLeave' | 'FocusInput' | 'Navigate';
+
+export interface Autocmd {
+  group: string;
+  events: AutocmdEvent[];
+  pattern: string;
+  command: string;
+}
+
+interface AutocmdsInterface {
+  events: AutocmdEvent[];
+  registry: Autocmd[];
+  runtime: Autocmd[];
+  lastURL: string;
+  listening: boolean;
+
+  load(): void;
+  parse(value: string): Autocmd | null;
+  add(autocmd: Autocmd): void;
+  clear(group?: string): number;
+  matches(autocmd: Autocmd, event: AutocmdEvent, url: string): boolean;
+  fire(event: AutocmdEvent): void;
+  navigate(url: string): void;
+  run(command: string): void;
+  addListeners(): void;
+}
+
+export const Autocmds: AutocmdsInterface = {
+  events: ['PageLoad', 'TabEnter', 'TabLeave', 'FocusInput', 'Navigate'],
+  registry: [],
+  runtime: [],
+  lastURL: document.URL,
+  listening: false,
+
+  // Rebuild the registry from the cVimrc, including the site blocks that
+  // match the current page. Autocommands added with :autocmd are kept until
+  // the page is reloaded.
+  load(): void {
+    this.registry = (settings.AUTOCMDS || []).slice();
+    for (const key in settings.sites || {}) {
+      if (settings.sites[key].AUTOCMDS && matchLocation(document.URL, key)) {
+        this.registry = this.registry.concat(settings.sites[key].AUTOCMDS);
+      }
+    }
+    this.registry = this.registry.concat(this.runtime);
+  },
+
+  // Parse the arguments of `:autocmd [group] {events} {pattern} {command}`
+  parse(value: string): Autocmd | null {
+    const isEventList = (events: string) => {
+      return events.split(',').every((e) => {
+        return this.events.indexOf(e as AutocmdEvent) !== -1;
+      });
+    };
+    let match = value.match(/^(\S+)\s+(\S+)\s+(.+)$/);
+    let group = '';
+    if (match && !isEventList(match[1]!)) {
+      group = match[1]!;
+      match = match[3]!.match(/^(\S+)\s+(\S+)\s+(.+)$/);
+    }
+    if (!match || !isEventList(match[1]!)) {
+      return null;
+    }
+    return {
+      group: group,
+      events: match[1]!.split(',') as AutocmdEvent[],
+      pattern: match[2]!.replace(/^(["'])(.*)\1$/, '$2'),
+      command: match[3]!
+    };
+  },
+
+  add(autocmd: Autocmd): void {
+    this.registry.push(autocmd);
+    this.runtime.push(autocmd);
+  },
+
+  // Remove the autocommands of group, or all of them when no group is
+  // given, returning the number removed
+  clear(group?: string): number {
+    const length = this.registry.length;
+    const keep = (e: Autocmd) => group !== undefined && e.group !== group;
+    this.registry = this.registry.filter(keep);
+    this.runtime = this.runtime.filter(keep);
+    return length - this.registry.length;
+  },
+
+  matches(autocmd: Autocmd, event: AutocmdEvent, url: string): boolean {
+    return autocmd.events.indexOf(event) !== -1 &&
+      (autocmd.pattern === '*' || matchLocation(url, autocmd.pattern));
+  },
+
+  fire(event: AutocmdEvent): void {
+    if (!Command.loaded || window.isCommandFrame) {
+      return;
+    }
+    // Only input focus is specific to a frame
+    if (event !== 'FocusInput' && window.self !== window.top) {
+      return;
+    }
+    this.registry.filter((e) => this.matches(e, event, document.URL))
+      .forEach((e) => this.run(e.command));
+  },
+
+  // Called by the background page whenever the URL of the tab changes. Full
+  // page loads are left to PageLoad in the new document.
+  navigate(url: string): void {
+    if (url === this.lastURL || url !== document.URL) {
+      return;
+    }
+    this.lastURL = url;
+    this.fire('Navigate');
+  },
+
+  // `normal {keys}` runs a key sequence, anything else is an ex-command
+  run(command: string): void {
+    const normal = command.match(/^norm(al)?!?\s+(.*)/);
+    if (normal) {
+      Mappings.executeSequence(normal[2]!);
+    } else {
+      Command.execute(command.replace(/^:/, ''), 1);
+    }
+  },
+
+  addListeners(): void {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+    document.addEventListener('visibilitychange', () => {
+      this.fire(document.visibilityState === 'visible' ? 'TabEnter' : 'TabLeave');
+    });
+    document.addEventListener('focusin', (event) => {
+      if (DOM.isEditable(event.target as Element)) {
+        this.fire('FocusInput');
+      }
+    }, true);
+    this.fire('PageLoad');
+  }
+};
+
+declare global {
+  interface Window {
+    Autocmds: AutocmdsInterface;
+    isCommandFrame?: boolean;
+  }
+}
+
+window.Autocmds = Autocmds;
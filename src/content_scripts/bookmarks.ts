@@ -38,6 +38,7 @@ interface Status {
 
 interface Settings {
   searchlimit: number;
+  completionmatcher: string;
   homedirectory?: string;
 }
 
@@ -192,7 +193,8 @@ class MarksImplementation implements MarksModule {
       array: this.bookmarks,
       search: search,
       limit: limit,
-      fn: (item: BookmarkTuple) => item.join(' ')
+      fn: (item: BookmarkTuple) => item.join(' '),
+      matcher: settings.completionmatcher
     }));
   }
 
@@ -0,0 +1,264 @@
+// The cheat sheet is an in-page overlay listing the mappings in effect on the
+// current page: the normal mode mappings grouped like the README, the insert
+// mappings and the keys of visual mode and the command bar. It is rendered
+// in a shadow root so the page styles do not apply, and closed with <Esc>.
+
+import type { TrieNode } from './utils.js';
+
+declare const Command: {
+  descriptions: [string, string][];
+  bindings: [string, string][];
+};
+
+declare const Mappings: {
+  descriptions: { [target: string]: string };
+  insertDescriptions: { [target: string]: string };
+  categories: [string, string[]][];
+  listMappings(node?: TrieNode): [string, string][];
+  trie(mode: 'normal' | 'insert' | 'visual' | 'command'): TrieNode;
+};
+
+declare const Visual: {
+  bindings: [string, string][];
+};
+
+// Keys, target (empty for built-in keys) and description
+export type CheatSheetRow = [string, string, string];
+
+export interface CheatSheetGroup {
+  title: string;
+  rows: CheatSheetRow[];
+}
+
+export interface CheatSheetSection {
+  title: string;
+  groups: CheatSheetGroup[];
+}
+
+interface CheatSheetInterface {
+  active: boolean;
+  host: HTMLDivElement | null;
+
+  show(): void;
+  hide(): void;
+  sections(): CheatSheetSection[];
+  group(mappings: [string, string][], descriptions: { [target: string]: string },
+    categories: [string, string[]][]): CheatSheetGroup[];
+  filter(query: string): void;
+}
+
+const CHEAT_SHEET_CSS = `
+:host { all: initial; }
+.cVim-cheat-sheet {
+  position: fixed; top: 5%; left: 10%; width: 80%; height: 90%;
+  display: flex; flex-direction: column; box-sizing: border-box;
+  background-color: #1b1d1e; color: #bbb;
+  box-shadow: 0 3px 12px rgba(0,0,0,0.6);
+  font-family: Helvetica, Helvetica Neue, Neue, sans-serif, monospace, Arial;
+  font-size: 10pt; line-height: 1.4;
+}
+.cVim-cheat-sheet-header {
+  display: flex; align-items: center; padding: 6px 10px;
+  border-bottom: 1px solid #333;
+}
+.cVim-cheat-sheet-title { flex: 1; color: #fff; font-weight: bold; }
+.cVim-cheat-sheet-search {
+  width: 40%; padding: 2px 4px; border: 1px solid #444; outline: none;
+  background-color: #1c1c1c; color: #bbb; font: inherit;
+}
+.cVim-cheat-sheet-body { flex: 1; overflow-y: auto; padding: 0 10px 10px; }
+h2 { margin: 12px 0 4px; color: #fff; font-size: 12pt; }
+h3 { margin: 8px 0 2px; color: #888; font-size: 10pt; font-weight: normal; }
+table { width: 100%; border-collapse: collapse; }
+td { padding: 1px 6px 1px 0; vertical-align: top; }
+tr:nth-child(even) { background-color: #1f1f1f; }
+.keys { width: 20%; color: #ffd76e; white-space: nowrap; }
+.target { width: 25%; color: #fff; }
+.description { color: #888; font-style: italic; }
+[hidden] { display: none; }
+`;
+
+export const CheatSheet: CheatSheetInterface = {
+  active: false,
+  host: null,
+
+  show(): void {
+    if (this.active) {
+      return;
+    }
+    this.active = true;
+    this.host = document.createElement('div');
+    this.host.id = 'cVim-cheat-sheet';
+    const shadow = this.host.attachShadow({ mode: 'open' });
+
+    const style = document.createElement('style');
+    style.textContent = CHEAT_SHEET_CSS;
+    shadow.appendChild(style);
+
+    const panel = document.createElement('div');
+    panel.className = 'cVim-cheat-sheet';
+    const header = document.createElement('div');
+    header.className = 'cVim-cheat-sheet-header';
+    const title = document.createElement('span');
+    title.className = 'cVim-cheat-sheet-title';
+    title.textContent = 'cVim mappings for ' + (location.host || document.URL);
+    const search = document.createElement('input');
+    search.className = 'cVim-cheat-sheet-search';
+    search.placeholder = 'Search';
+    search.addEventListener('input', () => this.filter(search.value));
+    header.appendChild(title);
+    header.appendChild(search);
+    panel.appendChild(header);
+
+    const body = document.createElement('div');
+    body.className = 'cVim-cheat-sheet-body';
+    this.sections().forEach((section) => {
+      const sectionEl = document.createElement('section');
+      const h2 = document.createElement('h2');
+      h2.textContent = section.title;
+      sectionEl.appendChild(h2);
+      section.groups.forEach((group) => {
+        const groupEl = document.createElement('div');
+        groupEl.className = 'cVim-cheat-sheet-group';
+        if (group.title) {
+          const h3 = document.createElement('h3');
+          h3.textContent = group.title;
+          groupEl.appendChild(h3);
+        }
+        const table = document.createElement('table');
+        group.rows.forEach((row) => {
+          const tr = document.createElement('tr');
+          ['keys', 'target', 'description'].forEach((className, i) => {
+            const td = document.createElement('td');
+            td.className = className;
+            td.textContent = row[i]!;
+            tr.appendChild(td);
+          });
+          table.appendChild(tr);
+        });
+        groupEl.appendChild(table);
+        sectionEl.appendChild(groupEl);
+      });
+      body.appendChild(sectionEl);
+    });
+    panel.appendChild(body);
+    shadow.appendChild(panel);
+
+    // Clicking outside of the panel closes the cheat sheet
+    this.host.addEventListener('mousedown', (event) => {
+      if (!event.composedPath().includes(panel)) {
+        this.hide();
+      }
+    });
+
+    (document.documentElement.lastElementChild || document.documentElement)
+      .appendChild(this.host);
+    search.focus();
+  },
+
+  hide(): void {
+    if (this.host) {
+      this.host.remove();
+      this.host = null;
+    }
+    this.active = false;
+  },
+
+  // The mappings are read from their tries, so site blocks, map and unmap
+  // are reflected. The vmap and cmap mappings are listed before the
+  // built-in keys of their mode.
+  sections(): CheatSheetSection[] {
+    const modeGroups = (mode: 'visual' | 'command', bindings: [string, string][]): CheatSheetGroup[] => {
+      const rows = Mappings.listMappings(Mappings.trie(mode)).map((e): CheatSheetRow => {
+        return [e[0], e[1], Mappings.insertDescriptions[e[1]] || ''];
+      });
+      return [{ title: rows.length ? 'Mappings' : '', rows: rows }, {
+        title: rows.length ? 'Keys' : '',
+        rows: bindings.map((e): CheatSheetRow => [e[0], '', e[1]])
+      }].filter((group) => group.rows.length);
+    };
+    return [{
+      title: 'Normal mode',
+      groups: this.group(Mappings.listMappings(Mappings.trie('normal')),
+        Mappings.descriptions, Mappings.categories)
+    }, {
+      title: 'Insert mode',
+      groups: this.group(Mappings.listMappings(Mappings.trie('insert')),
+        Mappings.insertDescriptions, [])
+    }, {
+      title: 'Visual/Caret mode',
+      groups: modeGroups('visual', Visual.bindings)
+    }, {
+      title: 'Command bar',
+      groups: modeGroups('command', Command.bindings)
+    }].filter((section) => section.groups.length);
+  },
+
+  // Merge the keys mapped to the same target and sort the targets into
+  // their categories. Ex-commands and mappings to other keys or functions
+  // go last.
+  group(mappings: [string, string][], descriptions: { [target: string]: string },
+    categories: [string, string[]][]): CheatSheetGroup[] {
+    const keys: { [target: string]: string[] } = {};
+    const targets: string[] = [];
+    mappings.forEach((e) => {
+      if (!keys.hasOwnProperty(e[1])) {
+        keys[e[1]] = [];
+        targets.push(e[1]);
+      }
+      keys[e[1]]!.push(e[0]);
+    });
+
+    const groups: CheatSheetGroup[] = categories.map((e) => ({ title: e[0], rows: [] }));
+    const commands: CheatSheetGroup = { title: 'Commands', rows: [] };
+    const other: CheatSheetGroup = { title: categories.length ? 'Other' : '', rows: [] };
+    targets.forEach((target) => {
+      const name = target.replace(/^\d+/, '').replace(/\(.*\)$/, '');
+      let description = descriptions[name] || '';
+      let group = other;
+      if (target.charAt(0) === ':') {
+        const command = Command.descriptions.find((e) => e[0] === target.replace(/^:(\w*).*/, '$1'));
+        description = command ? command[1] : '';
+        group = commands;
+      } else {
+        const index = categories.findIndex((e) => e[1].indexOf(name) !== -1);
+        if (index !== -1) {
+          group = groups[index]!;
+        }
+      }
+      group.rows.push([keys[target]!.join(', '), target, description]);
+    });
+    return groups.concat(commands, other).filter((group) => group.rows.length);
+  },
+
+  // Hide the rows that do not contain every word of query, and the groups
+  // and sections left empty
+  filter(query: string): void {
+    if (!this.host || !this.host.shadowRoot) {
+      return;
+    }
+    const words = query.toLowerCase().split(/\s+/).filter((e) => e);
+    this.host.shadowRoot.querySelectorAll('section').forEach((section) => {
+      let sectionMatches = false;
+      section.querySelectorAll('.cVim-cheat-sheet-group').forEach((group) => {
+        let groupMatches = false;
+        group.querySelectorAll('tr').forEach((row) => {
+          const text = (row.textContent || '').toLowerCase();
+          row.hidden = !words.every((word) => text.indexOf(word) !== -1);
+          groupMatches = groupMatches || !row.hidden;
+        });
+        (group as HTMLElement).hidden = !groupMatches;
+        sectionMatches = sectionMatches || groupMatches;
+      });
+      section.hidden = !sectionMatches;
+    });
+  }
+};
+
+declare global {
+  interface Window {
+    CheatSheet: CheatSheetInterface;
+  }
+}
+
+window.CheatSheet = CheatSheet;
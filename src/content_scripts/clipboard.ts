@@ -8,6 +8,7 @@ declare const settings: {
 
 interface ClipboardType {
   store: string;
+  register: string;
   copy(text: string, store?: boolean): void;
   paste(tabbed: boolean): void;
 }
@@ -15,7 +16,15 @@ interface ClipboardType {
 export const Clipboard: ClipboardType = {
   store: '',
 
+  // The named register ("a-"z or "A-"Z) selected for the current command.
+  // An empty string means the system clipboard.
+  register: '',
+
   copy(text: string, store?: boolean): void {
+    if (this.register) {
+      RUNTIME('copy', { text: text, register: this.register, append: !!store });
+      return;
+    }
     if (!store) {
       this.store = text;
     } else {
@@ -30,7 +39,11 @@ export const Clipboard: ClipboardType = {
       Complete.getEngine('google')!.requestUrl;
 
     RUNTIME(tabbed ? 'openPasteTab' : 'openPaste', {
-      engineUrl: finalUrl
+      engineUrl: finalUrl,
+      register: this.register || undefined
     });
   }
 };
+
+// window.Clipboard is typed as the Clipboard interface of the DOM library
+(window as unknown as { Clipboard: ClipboardType }).Clipboard = Clipboard;
@@ -1,4 +1,5 @@
 // External dependency declarations
+declare const ECHO: (action: string, data: any) => void;
 declare const RUNTIME: (action: string, data?: any, callback?: (response: any) => void) => void;
 declare const PORT: (action: string, data?: any) => void;
 declare let commandMode: boolean;
@@ -18,13 +19,25 @@ declare const Utils: {
   uniqueElements<T>(array: T[]): T[];
 };
 
+declare const searchArray: <T>(options: {
+  array: T[];
+  search: string;
+  limit?: number;
+  fn?: (item: T) => string;
+  matcher?: string;
+}) => T[];
+
+declare const matchText: (search: string, text: string, matcher?: string) =>
+  { score: number; indices: number[] } | null;
+
 declare const Search: {
   lastActive: any;
   index: number | null;
   settings: string[];
+  settingsSchema?: { [name: string]: { type: string; values?: string[]; default: any } };
   topSites: Array<[string, string]>;
   chromeMatch(search: string, callback: (matches: any[]) => void): void;
-  settingsMatch(search: string, callback: (matches: any[]) => void): void;
+  settingsMatch(search: string, callback: (matches: any[]) => void, all?: boolean): void;
 };
 
 declare const Complete: {
@@ -48,15 +61,38 @@ declare const Mappings: {
   clearQueue(): void;
   parseCustom(config: string, updateSiteMappings: boolean): void;
   parseLine(line: string): void;
+  shadowed(mode: 'normal' | 'insert' | 'visual' | 'command', keys: string): string[];
   executeSequence(command: string): void;
   defaults: string[][];
   defaultsClone: string[][];
+  insertDefaults: string[][];
+  actions: { [name: string]: any };
+  insertFunctions: { [name: string]: any };
+  descriptions: { [target: string]: string };
+  listMappings(): [string, string][];
+};
+
+declare const Clipboard: {
+  copy(text: string, store?: boolean): void;
 };
 
 declare const Find: {
   clear(): void;
 };
 
+declare const Hints: {
+  loadSiteFilters(sites: any): void;
+};
+
+declare const Autocmds: {
+  registry: { group: string; events: string[]; pattern: string; command: string }[];
+  load(): void;
+  parse(value: string): { group: string; events: string[]; pattern: string; command: string } | null;
+  add(autocmd: { group: string; events: string[]; pattern: string; command: string }): void;
+  clear(group?: string): number;
+  addListeners(): void;
+};
+
 declare const HUD: {
   hide(force?: boolean): void;
   display(message: string): void;
@@ -139,6 +175,32 @@ declare global {
 // Type definitions
 type CommandDescription = [string, string];
 
+interface ConfigDiagnostic {
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+interface SourcedFile {
+  url: string;
+  parent: string;
+  line: number;
+  status: 'loaded' | 'cached' | 'error';
+  error?: string;
+}
+
+// [file, line, site] of a mapping statement, null for the command bar
+type MappingOrigin = [string, number, string?] | null;
+
+interface MappingListing {
+  keys: string;
+  target: string;
+  noremap: boolean;
+  origin: string;
+  shadowedBy: string;
+}
+
 interface CommandHistoryType {
   [key: string]: any;
   index: { [key: string]: number };
@@ -173,12 +235,14 @@ interface TabOptions {
 
 interface CommandType {
   descriptions: CommandDescription[];
+  bindings: [string, string][];
   dataElements: HTMLElement[];
   matches: any[];
   customCommands: { [key: string]: string };
   lastInputValue: string;
   completions: { [key: string]: any[] };
   completionResults: any[];
+  markedTabs: number[];
   completionStyles: CompletionStylesType;
   completionOrder: CompletionOrderType;
   history: CommandHistoryType;
@@ -207,6 +271,7 @@ interface CommandType {
   data?: HTMLDivElement;
   frame?: HTMLIFrameElement;
   css?: HTMLStyleElement;
+  commandWindow: HTMLTextAreaElement | null;
 
   // Methods
   setupFrameElements(): void;
@@ -214,6 +279,9 @@ interface CommandType {
   commandBarFocused(): boolean;
   updateCompletions(useStyles?: boolean): void;
   hideData(): void;
+  toggleTabMark(): void;
+  openCommandWindow(): void;
+  closeCommandWindow(run: boolean): void;
   deleteCompletions(completions: string): void;
   expandCompletion(value: string): string;
   callCompletionFunction(value: string): boolean;
@@ -232,8 +300,109 @@ interface CommandType {
   onSettingsLoad(callback?: () => void): void;
   destroy(): void;
   configureSettings(settings: any): void;
+  checkConfig(value: string): ConfigDiagnostic[];
 }
 
+// Completion types that are filtered with settings.completionmatcher
+const MATCHED_COMPLETIONS = ['buffers', 'tablist', 'history', 'bookmarks', 'topsites', 'chromesessions'];
+
+// Operations that :tabs applies to the marked tabs, mapped to their
+// background actions and request parameters
+const TAB_LIST_OPERATIONS: { [name: string]: [string, any] } = {
+  close: ['batchCloseTabs', {}],
+  move: ['batchMoveTabs', {}],
+  pin: ['batchPinTabs', { pinned: true }],
+  unpin: ['batchPinTabs', { pinned: false }],
+  mute: ['batchMuteTabs', { muted: true }],
+  unmute: ['batchMuteTabs', { muted: false }],
+  reload: ['batchReloadTabs', {}],
+  bookmark: ['batchBookmarkTabs', {}],
+};
+
+// Appends lines to settings.MAPPINGS with their origins, keeping
+// MAPPINGORIGINS aligned with its lines. Settings saved before origins were
+// recorded have none for their cVimrc lines.
+const appendMappings = (mappings: string, origins: MappingOrigin[]): void => {
+  const previous: MappingOrigin[] = settings.MAPPINGORIGINS || [];
+  settings.MAPPINGORIGINS = settings.MAPPINGS.split('\n').map((_: string, i: number) => {
+    return previous[i] !== undefined ? previous[i] : ['', 0];
+  }).concat(origins);
+  settings.MAPPINGS += '\n' + mappings;
+};
+
+// Commands that take the rest of the line as their argument, `|` included
+const LITERAL_COMMANDS = /^\s*(script|execute|autocmd!?|[icv]?(re)?map|[nvic]?noremap)(\s|$)/;
+
+// Commands that accept a tab range (:2,5tabclose) or count (:3tabnext)
+const RANGE_COMMANDS = ['tabclose', 'tabc', 'tabnext', 'tabn', 'tabprevious',
+  'tabp', 'tabN', 'pintab', 'unpintab', 'togglepin'];
+
+// A tab address is a tab number, '.' for the current tab or '$' for the last
+// tab, optionally followed by an offset such as '.+2'. '%' means every tab.
+const TAB_RANGE = /^(%|(?=[\d.$+-])(?:\d+|[.$])?(?:[+-]\d+)?)(?:,((?:\d+|[.$])?(?:[+-]\d+)?))?/;
+
+// Split a command line on the `|` separators that are outside of quoted
+// words.
+// `<Bar>` and `\|` are escaped bars, and a `|` directly after the command
+// name or at the end of the line is the incognito tab modifier.
+const splitCommands = (value: string): string[] => {
+  const commands: string[] = [];
+  let start = 0;
+  let quote = '';
+  for (let i = 0; i < value.length; i++) {
+    const c = value.charAt(i);
+    if (quote) {
+      if (c === quote)
+        quote = '';
+    } else if ((c === '"' || c === '\'') && /^\s?$/.test(value.charAt(i - 1))) {
+      quote = c;
+    } else if (c === '\\') {
+      i++;
+    } else if (c === '|') {
+      const command = value.slice(start, i + 1);
+      if (LITERAL_COMMANDS.test(command))
+        break;
+      if (/^\s*[^\s&$!*=?|]*[&$!*=?|]+$/.test(command) &&
+        /^[&$!*=?|]*(\s|$)/.test(value.slice(i + 1)))
+        continue;
+      if (/^[&$!*=?|]*\s*$/.test(value.slice(i + 1)))
+        break;
+      commands.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  commands.push(value.slice(start));
+  return commands.map((e) => e.trim()).filter((e) => e.length);
+};
+
+// Fill element with text, wrapping the characters matched by search in
+// highlighted spans
+const setMatchedText = (element: HTMLElement, text: string, search: string): void => {
+  const matched: boolean[] = [];
+  const words = settings.completionmatcher === 'regex' ?
+    [search] : Utils.split(search, /\s+/);
+  words.forEach((word) => {
+    const match = matchText(word, text, settings.completionmatcher);
+    if (match !== null) {
+      match.indices.forEach((index) => { matched[index] = true; });
+    }
+  });
+  for (let i = 0; i < text.length;) {
+    let j = i + 1;
+    while (j < text.length && !!matched[j] === !!matched[i])
+      j++;
+    if (matched[i]) {
+      const span = document.createElement('span');
+      span.className = 'cVim-completion-match';
+      span.textContent = text.slice(i, j);
+      element.appendChild(span);
+    } else {
+      element.appendChild(document.createTextNode(text.slice(i, j)));
+    }
+    i = j;
+  }
+};
+
 // Command object implementation
 export const Command: CommandType = {
   descriptions: [
@@ -241,14 +410,16 @@ export const Command: CommandType = {
     ['tabnew', 'Open a link in a new tab'],
     ['tabnext', 'Switch to the next open tab'],
     ['tabprevious', 'Switch to the previous open tab'],
+    ['tabclose', 'Close the current tab or a range of tabs'],
     ['new', 'Open a link in a new window'],
     ['buffer', 'Select from a list of current tabs'],
     ['history', 'Search through your browser history'],
     ['bookmarks', 'Search through your bookmarks'],
     ['file', 'Browse local directories'],
     ['source', 'Load a config from a local file'],
+    ['sourced', 'List the files loaded by source statements in the cVimrc'],
     ['set', 'Configure boolean settings'],
-    ['call', 'Call a cVim command'],
+    ['call', 'Call an action or ex-command, with a count before its name'],
     ['let', 'Configure non-boolean settings'],
     ['tabhistory', 'Open a tab from its history states'],
     ['execute', 'Execute a sequence of keys'],
@@ -256,14 +427,26 @@ export const Command: CommandType = {
     ['restore', 'Open a recently closed tab'],
     ['mksession', 'Create a saved session of current tabs'],
     ['delsession', 'Delete sessions'],
-    ['map', 'Map a command'],
+    ['map', 'Map a command, or list the mappings starting with a key'],
+    ['imap', 'Map an insert mode key, or list the insert mode mappings'],
+    ['vmap', 'Map a visual mode key, or list the visual mode keys'],
+    ['cmap', 'Map a command bar key, or list the command bar keys'],
+    ['noremap', 'Map a key to keys that are not mapped again'],
+    ['nnoremap', 'Map a key to keys that are not mapped again'],
+    ['inoremap', 'Map an insert mode key to a built-in insert mapping'],
+    ['vnoremap', 'Map a visual mode key to keys that are not mapped again'],
+    ['cnoremap', 'Map a command bar key to keys that are not mapped again'],
+    ['verbose', 'With map, imap, vmap or cmap, show where each mapping was set'],
     ['unmap', 'Unmap a command'],
+    ['vunmap', 'Unmap a visual mode key'],
+    ['cunmap', 'Unmap a command bar key'],
     ['tabattach', 'Move current tab to another window'],
     ['tabdetach', 'Move current tab to a new window'],
     ['chrome', 'Opens Chrome urls'],
     ['duplicate', 'Clone the current tab'],
     ['settings', 'Open the options page for this extension'],
     ['help', 'Shows the help page'],
+    ['cheatsheet', 'Show the mappings of the current page'],
     ['changelog', 'Shows the changelog page'],
     ['quit', 'Close the current tab'],
     ['qall', 'Close the current window'],
@@ -273,18 +456,42 @@ export const Command: CommandType = {
     ['togglepin', 'Toggle the tab\'s pinned state'],
     ['nohlsearch', 'Clears the search highlight'],
     ['viewsource', 'View the source for the current document'],
+    ['registers', 'List the contents of the yank registers'],
+    ['marks', 'List the marks of the current page and the global marks'],
+    ['delmarks', 'Delete marks'],
+    ['tabgroup', 'Add the current tab to a tab group'],
+    ['tabungroup', 'Remove the current tab from its tab group'],
+    ['tabgroupcollapse', 'Collapse or expand a tab group'],
+    ['tabs', 'List the tabs of all windows and act on the marked tabs'],
+    ['autocmd', 'List or add autocommands, :autocmd! clears them'],
+    ['checkrc', 'List the errors and warnings in the cVimrc'],
+    ['mkcvimrc', 'Copy the current settings as a cVimrc, :mkcvimrc! previews them on the options page'],
     ['script', 'Run JavaScript on the current page']
   ],
 
+  // The keys handled while the command bar is focused, listed by the cheat
+  // sheet
+  bindings: [
+    ['<Tab>, <S-Tab>', 'select the next/previous completion result'],
+    ['<C-n>, <C-p>', 'select the next/previous completion result (with cncpcompletion set)'],
+    ['<Up>, <Down>', 'cycle through the command history'],
+    ['<Enter>', 'run the command'],
+    ['<C-Enter>', 'run the command in a new tab'],
+    ['<C-s>', 'mark the highlighted tab in :tabs'],
+    ['<Esc>', 'close the command bar']
+  ],
+
   dataElements: [],
   matches: [],
   customCommands: {},
   lastInputValue: '',
   completions: {},
   completionResults: [],
+  markedTabs: [],
   type: '',
   active: false,
   commandMode: false,
+  commandWindow: null,
 
   completionStyles: {
     engines: ['Se', '#87ff87'],
@@ -440,10 +647,13 @@ export const Command: CommandType = {
         }
       }
     }
+    const search = this.input!.value.replace(/^\S+\s*/, '').trim();
     for (i = 0; i < this.completionResults.length; ++i) {
       if (i > settings.searchlimit) {
         break;
       }
+      const highlight = search.length > 0 &&
+        MATCHED_COMPLETIONS.indexOf(this.completionResults[i]![0]) !== -1;
       const item = document.createElement('div');
       item.className = 'cVim-completion-item';
       let identifier: HTMLSpanElement | undefined;
@@ -460,10 +670,15 @@ export const Command: CommandType = {
       if (this.completionResults[i]!.length >= 3) {
         const left = document.createElement('span');
         left.className = 'cVim-left';
-        left.textContent = this.completionResults[i]![1];
         const right = document.createElement('span');
         right.className = 'cVim-right';
-        right.textContent = this.completionResults[i]![2];
+        if (highlight) {
+          setMatchedText(left, this.completionResults[i]![1], search);
+          setMatchedText(right, this.completionResults[i]![2] || '', search);
+        } else {
+          left.textContent = this.completionResults[i]![1];
+          right.textContent = this.completionResults[i]![2];
+        }
         if (identifier) {
           left.style.paddingLeft = '4px';
           left.insertBefore(identifier, left.firstChild);
@@ -473,7 +688,11 @@ export const Command: CommandType = {
       } else {
         const full = document.createElement('span');
         full.className = 'cVim-full';
-        full.textContent = this.completionResults[i]![1];
+        if (highlight) {
+          setMatchedText(full, this.completionResults[i]![1], search);
+        } else {
+          full.textContent = this.completionResults[i]![1];
+        }
         item.appendChild(full);
       }
       this.dataElements.push(item);
@@ -496,6 +715,67 @@ export const Command: CommandType = {
     }
   },
 
+  // The command-line window lists the history of the command bar as
+  // editable lines, ending with the line being typed
+  openCommandWindow(): void {
+    if (this.commandWindow) {
+      return;
+    }
+    const text = this.history[this.type].concat(this.input!.value).join('\n');
+    this.hideData();
+    this.commandWindow = document.createElement('textarea');
+    this.commandWindow.id = 'cVim-command-window';
+    this.commandWindow.spellcheck = false;
+    this.commandWindow.value = text;
+    this.commandWindow.style[this.onBottom ? 'bottom' : 'top'] =
+      this.bar!.offsetHeight + 'px';
+    (document.lastElementChild || document.documentElement)
+      .appendChild(this.commandWindow);
+    this.commandWindow.focus();
+    this.commandWindow.setSelectionRange(text.length, text.length);
+    this.commandWindow.scrollTop = this.commandWindow.scrollHeight;
+  },
+
+  // Closes the command-line window, putting the line under its caret in
+  // the command bar when run is set
+  closeCommandWindow(run: boolean): void {
+    const commandWindow = this.commandWindow;
+    if (!commandWindow) {
+      return;
+    }
+    if (run) {
+      const text = commandWindow.value;
+      const caret = commandWindow.selectionStart;
+      const end = text.indexOf('\n', caret);
+      this.input!.value = text.slice(text.lastIndexOf('\n', caret - 1) + 1,
+        end === -1 ? text.length : end);
+    }
+    commandWindow.remove();
+    this.commandWindow = null;
+    this.input!.focus();
+  },
+
+  // Mark or unmark the highlighted :tabs row (the first row when none is
+  // highlighted)
+  toggleTabMark(): void {
+    const index = Search.index === null ? 0 : Search.index;
+    const result = this.completionResults[index];
+    if (!result || result[0] !== 'tablist')
+      return;
+    const markIndex = this.markedTabs.indexOf(result[3]);
+    if (markIndex === -1) {
+      this.markedTabs.push(result[3]);
+      result[1] = result[1].replace(': ', ': * ');
+    } else {
+      this.markedTabs.splice(markIndex, 1);
+      result[1] = result[1].replace(': * ', ': ');
+    }
+    const left = this.dataElements[index]?.querySelector('.cVim-left');
+    if (left) {
+      left.textContent = result[1];
+    }
+  },
+
   deleteCompletions(completions: string): void {
     const completionList = completions.split(',');
     for (let i = 0, l = completionList.length; i < l; ++i) {
@@ -548,10 +828,13 @@ export const Command: CommandType = {
           return [name, engine?.requestUrl || ''];
         });
         self().updateCompletions(true);
-        self().completions.topsites = Search.topSites.filter((e) => {
-          return ~(e[0] + ' ' + e[1]).toLowerCase()
-            .indexOf(searchTerms.slice(0).join(' ').toLowerCase());
-        }).slice(0, 5).map((e) => {
+        self().completions.topsites = searchArray({
+          array: Search.topSites,
+          search: searchTerms.join(' '),
+          limit: 5,
+          fn: (e) => e[0] + ' ' + e[1],
+          matcher: settings.completionmatcher
+        }).map((e) => {
           return [e[0], e[1]];
         });
         self().updateCompletions(true);
@@ -565,7 +848,8 @@ export const Command: CommandType = {
         self().searchMode = true;
         PORT('searchHistory', {
           search: value.replace(/^\S+\s+/, ''),
-          limit: settings.searchlimit
+          limit: settings.searchlimit,
+          matcher: settings.completionmatcher
         });
         return;
       }
@@ -599,13 +883,156 @@ export const Command: CommandType = {
     const restoreTabCompletion = (value: string) => {
       RUNTIME('getChromeSessions', null, (sessions: any) => {
         self().completions = {
-          chromesessions: Object.keys(sessions).map((e) => {
-            return [sessions[e].id + ': ' + sessions[e].title,
-            sessions[e].url,
-            sessions[e].id];
-          }).filter((e) => {
-            return ~e.join('').toLowerCase()
-              .indexOf(value.replace(/^\S+\s+/, '').toLowerCase());
+          chromesessions: searchArray({
+            array: Object.keys(sessions).map((e) => {
+              return [sessions[e].id + ': ' + sessions[e].title,
+              sessions[e].url,
+              sessions[e].id];
+            }),
+            search: value.replace(/^\S+\s*/, ''),
+            fn: (e) => e.slice(0, 2).join(' '),
+            matcher: settings.completionmatcher
+          })
+        };
+        self().updateCompletions();
+      });
+    };
+
+    const registerCompletion = () => {
+      RUNTIME('getRegisters', null, (registers: { [name: string]: string }) => {
+        const names = search.replace(/\s+/g, '').toLowerCase();
+        self().completions = {
+          registers: Object.keys(registers).sort().filter((name) => {
+            return !names.length || names.indexOf(name) !== -1;
+          }).map((name) => {
+            return ['"' + name, registers[name]!.replace(/\n/g, '^J')];
+          })
+        };
+        self().updateCompletions();
+      });
+    };
+
+    const markCompletion = () => {
+      RUNTIME('getMarkList', null, (marks: [string, [number, number], string][]) => {
+        const names = search.replace(/\s+/g, '');
+        self().completions = {
+          marks: marks.filter((mark) => {
+            return !names.length || names.indexOf(mark[0]) !== -1;
+          }).map((mark) => {
+            return [mark[0], mark[2] + ' (' + mark[1].join(', ') + ')'];
+          })
+        };
+        self().updateCompletions();
+      });
+    };
+
+    const autocmdCompletion = () => {
+      const words = Utils.split(search, /\s+/);
+      self().completions = {
+        autocmds: Autocmds.registry.filter((e) => {
+          return words.every((word) => {
+            return e.group === word || e.events.indexOf(word) !== -1 ||
+              e.pattern.indexOf(word) !== -1;
+          });
+        }).map((e) => {
+          return [(e.group ? e.group + ' ' : '') + e.events.join(',') + ' ' +
+            e.pattern, e.command];
+        })
+      };
+      self().updateCompletions();
+    };
+
+    // :map, :imap, :vmap and :cmap list the mappings of their mode that
+    // start with the typed keys. They are read from the frame the command
+    // bar was opened from, where site blocks apply.
+    const mappingCompletion = (value: string) => {
+      const match = value.match(/^(verbose\s+)?([icv]?)map\s+(\S*)$/);
+      if (!match) {
+        self().hideData();
+        return;
+      }
+      const mode = ({ '': 'normal', i: 'insert', v: 'visual', c: 'command' } as
+        { [key: string]: string })[match[2]!];
+      RUNTIME('getFrameMappings', { mode: mode, prefix: match[3] },
+        (mappings: MappingListing[] | undefined) => {
+          if (!Command.active) {
+            return;
+          }
+          self().completions = {
+            mappings: (mappings || []).map((e) => {
+              const notes: string[] = [];
+              if (e.shadowedBy) {
+                notes.push('shadowed by ' + e.shadowedBy);
+              }
+              if (match[1]) {
+                notes.push(e.origin === 'default' ? 'default' : 'last set from ' + e.origin);
+              }
+              return [e.keys, (e.noremap ? '* ' : '') + e.target + (notes.length ? ' (' + notes.join(', ') + ')' : '')];
+            })
+          };
+          self().updateCompletions();
+        });
+    };
+
+    // :call lists every action and ex-command with its description and the
+    // keys bound to it, keeping a count typed before the name
+    const paletteCompletion = () => {
+      const keys: { [target: string]: string[] } = {};
+      Mappings.listMappings().forEach((e) => {
+        const target = e[1].charAt(0) === ':' ? e[1].replace(/^(:\w+).*/, '$1') :
+          e[1].replace(/^\d+/, '').replace(/\(.*\)$/, '');
+        (keys[target] = keys[target] || []).push(e[0]);
+      });
+      const entries: [string, string][] = Object.keys(Mappings.actions).filter((name) => {
+        return name.charAt(0) !== '_' && name !== 'shortCuts';
+      }).map((name): [string, string] => [name, Mappings.descriptions[name] || ''])
+        .concat(self().descriptions.map((e): [string, string] => [':' + e[0], e[1]]));
+      self().completions = {
+        palette: searchArray({
+          array: entries,
+          search: search.replace(/^\d+\s*/, ''),
+          fn: (e) => e[0] + ' ' + e[1],
+          matcher: settings.completionmatcher
+        }).map((e) => {
+          return [e[0], e[1] + (keys[e[0]] ? ' (' + keys[e[0]]!.join(', ') + ')' : '')];
+        })
+      };
+      self().updateCompletions();
+    };
+
+    const tabGroupCompletion = () => {
+      RUNTIME('getTabGroups', null, (groups: [string, string][]) => {
+        self().completions = {
+          tabgroups: groups.filter((group) => {
+            return group[0] && group[0].toLowerCase().indexOf(search.toLowerCase()) === 0;
+          })
+        };
+        self().updateCompletions();
+      });
+    };
+
+    // While tabs are marked, typing an operation name lists the tabs it
+    // will be applied to
+    const tabListCompletion = () => {
+      RUNTIME('getBuffers', null, (response: { buffers: [string, string, number][] }) => {
+        const markedTabs = self().markedTabs;
+        const operation = search.split(/\s+/)[0]!;
+        let buffers = response.buffers;
+        if (markedTabs.length && TAB_LIST_OPERATIONS.hasOwnProperty(operation)) {
+          buffers = buffers.filter((e) => markedTabs.indexOf(e[2]) !== -1);
+        } else {
+          buffers = searchArray({
+            array: buffers,
+            search: search,
+            fn: (e) => e[0] + ' ' + e[1],
+            matcher: settings.completionmatcher
+          });
+        }
+        self().completions = {
+          tablist: buffers.map((e) => {
+            const label = markedTabs.indexOf(e[2]) !== -1 ?
+              e[0].replace(': ', ': * ') : e[0];
+            return [label, e[1], e[2]];
           })
         };
         self().updateCompletions();
@@ -677,18 +1104,57 @@ export const Command: CommandType = {
         case 'restore':
           restoreTabCompletion(value);
           return true;
+        case 'registers':
+          registerCompletion();
+          return true;
+        case 'marks':
+        case 'delmarks':
+          markCompletion();
+          return true;
+        case 'tabgroup':
+        case 'tabgroupcollapse':
+          tabGroupCompletion();
+          return true;
+        case 'tabs':
+          tabListCompletion();
+          return true;
+        case 'autocmd':
+          autocmdCompletion();
+          return true;
+        case 'call':
+          paletteCompletion();
+          return true;
+        case 'map':
+        case 'imap':
+        case 'vmap':
+        case 'cmap':
+        case 'verbose':
+          mappingCompletion(value);
+          return true;
+        case 'checkrc':
+          self().completions = {
+            diagnostics: self().checkConfig(settings.RC || '').map((e) => {
+              return [e.line + ':' + e.column, e.severity + ': ' + e.message];
+            })
+          };
+          self().updateCompletions();
+          return true;
         case 'session':
         case 'mksession':
         case 'delsession':
           deleteSessionCompletion();
           return true;
         case 'set':
-          Search.settingsMatch(search, (matches) => {
+        case 'let':
+          // :set all lists every setting, otherwise only the name is completed
+          if (/[=&]/.test(search) || (baseCommand === 'let' && /\s/.test(search))) {
+            self().hideData();
+            return true;
+          }
+          Search.settingsMatch(search.replace(/^all(\s+|$)/, ''), (matches) => {
             self().completions = { settings: matches };
             self().updateCompletions();
-          });
-          return true;
-        case 'let': // TODO
+          }, baseCommand === 'set' && /^all(\s|$)/.test(search));
           return true;
         case 'history':
           if (search.trim() === '') {
@@ -696,7 +1162,11 @@ export const Command: CommandType = {
             return true;
           }
           self().historyMode = true;
-          PORT('searchHistory', { search: search, limit: settings.searchlimit });
+          PORT('searchHistory', {
+            search: search,
+            limit: settings.searchlimit,
+            matcher: settings.completionmatcher
+          });
           return true;
         case 'file':
           Marks.parseFileCommand(search);
@@ -704,6 +1174,17 @@ export const Command: CommandType = {
         case 'source':
           Marks.parseFileCommand(search);
           return true;
+        case 'sourced':
+          RUNTIME('getSourcedFiles', null, (files: SourcedFile[]) => {
+            self().completions = {
+              sourced: files.map((file) => {
+                return [file.url, file.status + (file.error ? ': ' + file.error : '') +
+                  ' (line ' + file.line + ' of ' + (file.parent || 'cVimrc') + ')'];
+              })
+            };
+            self().updateCompletions();
+          });
+          return true;
         case 'bookmarks':
           self().completions = {};
           if (search[0] === '/') {
@@ -738,32 +1219,178 @@ export const Command: CommandType = {
   },
 
   execute(value: string, repeats: number): void {
+    const commands = splitCommands(value);
+    if (commands.length > 1) {
+      commands.forEach((command) => {
+        this.execute(command, repeats);
+      });
+      return;
+    }
+
+    // Substituted text is escaped so that it is not split again
     if (value.indexOf('@%') !== -1) {
       RUNTIME('getRootUrl', (url: string) => {
-        this.execute(value.split('@%').join(url), repeats);
+        this.execute(value.split('@%').join(url.replace(/\|/g, '<Bar>')), repeats);
       });
       return;
     }
     if (value.indexOf('@"') !== -1) {
       RUNTIME('getPaste', (paste: string) => {
-        this.execute(value.split('@"').join(paste), repeats);
+        this.execute(value.split('@"').join(paste.replace(/\|/g, '<Bar>')), repeats);
       });
       return;
     }
 
     commandMode = false;
 
+    value = value.replace(/<Bar>/gi, '|');
+    if (!LITERAL_COMMANDS.test(value)) {
+      value = value.replace(/\\\|/g, '|');
+    }
+
+    // :2,5tabclose, :tabclose 2,5 and :3tabnext. Other commands take a
+    // count instead, as in :3duplicate.
+    let range: [string, string] | undefined;
+    let rangeMatch = value.match(TAB_RANGE);
+    if (rangeMatch && /^[a-zA-Z]/.test(value.slice(rangeMatch[0].length))) {
+      value = value.slice(rangeMatch[0].length);
+    } else {
+      const argument = value.match(/^(\S+)\s+(\S+)\s*$/);
+      rangeMatch = argument && RANGE_COMMANDS.indexOf(argument[1]!) !== -1 ?
+        argument[2]!.match(TAB_RANGE) : null;
+      if (rangeMatch && rangeMatch[0] === argument![2]) {
+        value = argument![1]!;
+      } else {
+        rangeMatch = null;
+      }
+    }
+    if (rangeMatch) {
+      range = rangeMatch[1] === '%' ? ['1', '$'] :
+        [rangeMatch[1]!, rangeMatch[2] || rangeMatch[1]!];
+      if (RANGE_COMMANDS.indexOf(value.replace(/[\s&$!*=?|].*/, '')) === -1) {
+        if (!/^\d+$/.test(range[0])) {
+          Status.setMessage('no range allowed', 1, 'error');
+          return;
+        }
+        repeats = +range[0];
+        range = undefined;
+      }
+    }
+
     const split = Utils.compressArray(value.split(/\s+/g));
     if (this.customCommands.hasOwnProperty(split[0]!)) {
       this.execute(this.customCommands[split[0]!] + ' ' + split.slice(1).join(' '), 1);
       return;
     }
 
+    // Autocommand patterns and commands may contain the tab modifiers below,
+    // so :autocmd is handled first. :autocmd [group] {events} {pattern}
+    // {command} adds an autocommand, :autocmd [filter] lists them and
+    // :autocmd! [group] removes them.
+    if (/^autocmd(!|\s|$)/.test(value)) {
+      const args = value.replace(/^autocmd!?\s*/, '');
+      if (value.charAt(7) === '!') {
+        const count = Autocmds.clear(args || undefined);
+        ECHO('autocmd', { clear: true, group: args || undefined });
+        Status.setMessage(count + ' autocommand' + (count === 1 ? '' : 's') +
+          ' removed', 1);
+        return;
+      }
+      const autocmd = Autocmds.parse(args);
+      if (autocmd) {
+        Autocmds.add(autocmd);
+        ECHO('autocmd', { autocmd: autocmd });
+        return;
+      }
+      if (args.split(/\s+/).length > 2) {
+        Status.setMessage('invalid autocmd: ' + args, 1, 'error');
+        return;
+      }
+      const listing = 'autocmd ' + args;
+      PORT('showCommandFrame', {
+        frameId: Frames.frameId,
+        value: listing,
+        complete: listing
+      });
+      return;
+    }
+
     value = this.expandCompletion(value);
     value = value.replace(/@@[a-zA-Z_$][a-zA-Z0-9_$]*/g, (e) => {
       return settings.hasOwnProperty(e) ? settings[e] : e;
     });
 
+    // :set name&, :set all& reset settings to their defaults and
+    // :set name=value changes a setting that is not a boolean. Values may
+    // end in tab modifier characters, so :set is parsed before they are
+    // stripped.
+    if (/^set +/.test(value) && value !== 'set') {
+      const args = value.replace(/^set +/, '').trim();
+      const showError = (response: { error?: string }) => {
+        if (response.error) {
+          Status.setMessage(response.error, 1, 'error');
+        }
+      };
+      if (/^[a-zA-Z]+&$/.test(args)) {
+        RUNTIME('resetSetting', { name: args.slice(0, -1) }, showError);
+        return;
+      }
+      if (args === 'all') {
+        PORT('showCommandFrame', {
+          frameId: Frames.frameId,
+          value: 'set all',
+          complete: 'set all'
+        });
+        return;
+      }
+      const assignment = args.match(/^([a-zA-Z]+)\s*=\s*(.*)$/);
+      if (assignment) {
+        const name = assignment[1]!;
+        let setting: any = assignment[2]!;
+        const type = Search.settingsSchema?.[name]?.type;
+        if (type === 'number' && setting.trim() !== '' && !isNaN(+setting)) {
+          setting = +setting;
+        } else if (type === 'boolean' && /^(true|false|0|1)$/.test(setting)) {
+          setting = setting === 'true' || setting === '1';
+        }
+        RUNTIME('letSetting', { settings: { [name]: setting } }, showError);
+        return;
+      }
+
+      const setValue = args.split(/[ =]+/);
+      let isSet: boolean;
+      const isQuery = /\?$/.test(setValue[0]!);
+      const swapVal = /!$/.test(setValue[0]!);
+      setValue[0] = setValue[0]!.replace(/[?!]$/, '');
+      if (!settings.hasOwnProperty(setValue[0]!.replace(/^no/, ''))) {
+        Status.setMessage('unknown option: ' + setValue[0], 1, 'error');
+        return;
+      }
+
+      if (isQuery) {
+        Status.setMessage(setValue + ': ' + settings[setValue[0]!], 1);
+        return;
+      }
+
+      isSet = !/^no/.test(setValue[0]!);
+      setValue[0] = setValue[0]!.replace(/^no/, '');
+
+      if (setValue.length === 1 && Boolean(settings[setValue[0]!]) === settings[setValue[0]!]) {
+        if (setValue[0] === 'hud' && !isSet) {
+          HUD.hide(true);
+        }
+        if (swapVal) {
+          settings[setValue[0]!] = !settings[setValue[0]!];
+        } else {
+          settings[setValue[0]!] = isSet;
+        }
+        RUNTIME('syncSettings', { settings: settings });
+      } else {
+        Status.setMessage(setValue[0] + ': ' + JSON.stringify(settings[setValue[0]!]), 1);
+      }
+      return;
+    }
+
     // Match commands like ':tabnew*&! search' before
     // commands like ':tabnew search&*!'
     // e.g. :tabnew& google asdf* => opens a new pinned tab
@@ -821,6 +1448,22 @@ export const Command: CommandType = {
           repeats: repeats
         });
         return;
+      // :mkcvimrc! compares the generated cVimrc with the saved one on the
+      // options page before replacing it
+      case 'mkcvimrc':
+        if (tab.tabbed) {
+          RUNTIME('openLink', {
+            tab: tab,
+            url: chrome.runtime.getURL('/pages/options.html#mkcvimrc'),
+            repeats: 1
+          });
+          return;
+        }
+        RUNTIME('serializeSettings', null, (rc: string) => {
+          Clipboard.copy(rc);
+          Status.setMessage('copied ' + rc.trim().split('\n').length + ' lines of cVimrc to the clipboard', 2);
+        });
+        return;
       case 'changelog':
         tab.tabbed = true;
         RUNTIME('openLink', {
@@ -829,6 +1472,9 @@ export const Command: CommandType = {
           repeats: repeats
         });
         return;
+      case 'cheatsheet':
+        ECHO('callMapFunction', { name: 'showCheatSheet' });
+        return;
       case 'help':
         tab.tabbed = true;
         RUNTIME('openLink', {
@@ -846,25 +1492,34 @@ export const Command: CommandType = {
         PORT('viewSource', { tab: tab });
         return;
       case 'pintab':
-        RUNTIME('pinTab', { pinned: true });
+        RUNTIME('pinTab', { pinned: true, range: range });
         break;
       case 'unpintab':
-        RUNTIME('pinTab', { pinned: false });
+        RUNTIME('pinTab', { pinned: false, range: range });
         break;
       case 'togglepin':
-        RUNTIME('pinTab');
+        RUNTIME('pinTab', { range: range });
+        return;
+      case 'tabungroup':
+        RUNTIME('tabUngroup');
         return;
       case 'undo':
         RUNTIME('openLast');
         return;
+      case 'tabclose':
+      case 'tabc':
+        RUNTIME('closeTab', { range: range });
+        return;
       case 'tabnext':
       case 'tabn':
-        RUNTIME('nextTab');
+        RUNTIME('nextTab', { range: range });
         return;
       case 'tabprevious':
       case 'tabp':
       case 'tabN':
-        RUNTIME('previousTab');
+        RUNTIME('previousTab', {
+          repeats: range && /^\d+$/.test(range[1]) ? +range[1] : 1
+        });
         return;
       case 'q':
       case 'quit':
@@ -933,6 +1588,100 @@ export const Command: CommandType = {
       }
     }
 
+    if (/^reg(isters)?(\s|$)/.test(value)) {
+      const listing = 'registers ' + value.replace(/^\S+\s*/, '');
+      PORT('showCommandFrame', {
+        frameId: Frames.frameId,
+        value: listing,
+        complete: listing
+      });
+      return;
+    }
+
+    if (/^checkrc(\s|$)/.test(value)) {
+      if (!this.checkConfig(settings.RC || '').length) {
+        Status.setMessage('no problems found in cVimrc', 1);
+        return;
+      }
+      PORT('showCommandFrame', {
+        frameId: Frames.frameId,
+        value: 'checkrc ',
+        complete: 'checkrc '
+      });
+      return;
+    }
+
+    if (/^marks(\s|$)/.test(value)) {
+      const listing = 'marks ' + value.replace(/^\S+\s*/, '');
+      PORT('showCommandFrame', {
+        frameId: Frames.frameId,
+        value: listing,
+        complete: listing
+      });
+      return;
+    }
+
+    // :delmarks a b-d Z deletes the given marks and :delmarks! deletes all
+    // marks of the current page
+    if (/^delmarks(\s|$)/.test(value)) {
+      const names = value.replace(/^\S+/, '').replace(/\s+/g, '')
+        .replace(/([a-zA-Z])-([a-zA-Z])/g, (_, start: string, end: string) => {
+          let range = '';
+          for (let i = start.charCodeAt(0); i <= end.charCodeAt(0); i++) {
+            range += String.fromCharCode(i);
+          }
+          return range;
+        });
+      if (!names.length && !tab.tabbed) {
+        Status.setMessage('argument required', 1, 'error');
+        return;
+      }
+      RUNTIME('deleteMarks', { names: names.split('') });
+      return;
+    }
+
+    // :tabs <operation> applies the operation to the marked tabs, otherwise
+    // :tabs switches to the selected tab like :buffer
+    if (/^tabs(\s|$)/.test(value)) {
+      const args = value.replace(/^\S+\s*/, '');
+      const operation = TAB_LIST_OPERATIONS[args.split(/\s+/)[0]!];
+      if (operation) {
+        if (!this.markedTabs.length) {
+          Status.setMessage('no marked tabs', 1, 'error');
+          return;
+        }
+        RUNTIME(operation[0], Object.assign({
+          tabIds: this.markedTabs,
+          newWindow: /\snew$/.test(args)
+        }, operation[1]));
+        this.markedTabs = [];
+        return;
+      }
+      const results = this.completionResults.filter((e) => e[0] === 'tablist');
+      const selected = /^\d+$/.test(args) ? results.filter((e) => {
+        return e[1].indexOf(args + ':') === 0;
+      })[0] : results[0];
+      if (selected !== undefined)
+        RUNTIME('goToTab', { id: selected[3] });
+      return;
+    }
+
+    if (/^tabgroupcollapse(\s|$)/.test(value)) {
+      const name = value.replace(/^\S+\s*/, '');
+      RUNTIME('tabGroupCollapse', { name: name || undefined }, (found: boolean) => {
+        if (!found) {
+          Status.setMessage(name ? 'no tab group named ' + name : 'tab is not in a group',
+            1, 'error');
+        }
+      });
+      return;
+    }
+
+    if (/^tabgroup(\s|$)/.test(value)) {
+      RUNTIME('tabGroup', { name: value.replace(/^\S+\s*/, '') });
+      return;
+    }
+
     if (/^tabd(etach)?/.test(value)) {
       RUNTIME('moveTab');
       return;
@@ -948,7 +1697,16 @@ export const Command: CommandType = {
       return;
     }
 
-    if (/^source/.test(value)) {
+    if (/^sourced(\s|$)/.test(value)) {
+      PORT('showCommandFrame', {
+        frameId: Frames.frameId,
+        value: 'sourced ',
+        complete: 'sourced '
+      });
+      return;
+    }
+
+    if (/^source(\s|$)/.test(value)) {
       let path = value.replace(/\S+ */, '');
       if (!path.length) {
         path = '';
@@ -1083,56 +1841,64 @@ export const Command: CommandType = {
       return;
     }
 
-    if (/^((i?(re)?map)|i?unmap(All)?)+/.test(value)) {
-      settings.MAPPINGS += '\n' + value;
-      Mappings.parseLine(value);
-      PORT('syncSettings', { settings: settings });
+    // With at most a key prefix, :map, :imap, :vmap and :cmap list the
+    // mappings of their mode and :verbose also shows where they were set
+    const listing = value.match(/^(verbose\s+)?([icv]?map)(\s+\S+)?\s*$/);
+    if (listing) {
+      const command = (listing[1] ? 'verbose ' : '') + listing[2] + ' ' +
+        (listing[3] || '').trim();
+      PORT('showCommandFrame', {
+        frameId: Frames.frameId,
+        value: command,
+        complete: command
+      });
       return;
     }
 
-    if (/^set +/.test(value) && value !== 'set') {
-      const setValue = value.replace(/^set +/, '').split(/[ =]+/);
-      let isSet: boolean;
-      let swapVal: boolean;
-      const isQuery = /\?$/.test(setValue[0]!);
-      setValue[0] = setValue[0]!.replace(/\?$/, '');
-      if (!settings.hasOwnProperty(setValue[0]!.replace(/^no|!$/g, ''))) {
-        Status.setMessage('unknown option: ' + setValue[0], 1, 'error');
-        return;
-      }
-
-      if (isQuery) {
-        Status.setMessage(setValue + ': ' + settings[setValue[0]!], 1);
-        return;
-      }
-
-      isSet = !/^no/.test(setValue[0]!);
-      swapVal = tab.tabbed;
-      setValue[0] = setValue[0]!.replace(/^no|\?$/g, '');
-
-      if (setValue.length === 1 && Boolean(settings[setValue[0]!]) === settings[setValue[0]!]) {
-        if (setValue[0] === 'hud' && !isSet) {
-          HUD.hide(true);
-        }
-        if (swapVal) {
-          settings[setValue[0]!] = !settings[setValue[0]!];
-        } else {
-          settings[setValue[0]!] = isSet;
+    // Only normal and insert mappings can be cleared with unmapAll
+    if (/^(([icv]?(re)?map)|([nvic]?noremap)|[icv]?unmap|i?unmapAll)(\s|$)/.test(value)) {
+      appendMappings(value, [null]);
+      Mappings.parseLine(value);
+      PORT('syncSettings', { settings: settings });
+      const map = value.split(/\s+/);
+      if (/map$/.test(map[0]!) && map[1]) {
+        const mode = ({ i: 'insert', v: 'visual', c: 'command' } as
+          { [key: string]: 'insert' | 'visual' | 'command' })[map[0]!.charAt(0)] || 'normal';
+        const shadowed = Mappings.shadowed(mode, map[1]);
+        if (shadowed.length) {
+          Status.setMessage('warning: ' + map[1] + ' shadows ' + shadowed.join(', '), 2, 'error');
         }
-        RUNTIME('syncSettings', { settings: settings });
       }
       return;
     }
 
+    // :let name = value changes a setting until the settings are reloaded
+    // and :let! name = value also writes the statement to the cVimrc
     if (/^let +/.test(value) && value !== 'let') {
+      let added: any;
       try {
-        const added = RCParser.parse(value);
-        delete added.MAPPINGS;
-        Object.assign(settings, added);
-        PORT('syncSettings', { settings: settings });
+        added = RCParser.parse(value);
       } catch (e) {
-        this.hide();
+        Status.setMessage('invalid expression: ' + value.replace(/^let +/, ''), 1, 'error');
+        return;
+      }
+      delete added.MAPPINGS;
+      delete added.MAPPINGORIGINS;
+      for (const key in added) {
+        if (added[key] === undefined) {
+          Status.setMessage('undefined variable in: ' + value, 1, 'error');
+          return;
+        }
       }
+      RUNTIME('letSetting', {
+        settings: added,
+        config: value,
+        persist: tab.tabbed
+      }, (response: { error?: string }) => {
+        if (response.error) {
+          Status.setMessage(response.error, 1, 'error');
+        }
+      });
       return;
     }
 
@@ -1208,6 +1974,10 @@ export const Command: CommandType = {
   },
 
   hide(callback?: () => void): void {
+    if (this.commandWindow) {
+      this.commandWindow.remove();
+      this.commandWindow = null;
+    }
     if (window.isCommandFrame)
       this.input!.blur();
     commandMode = false;
@@ -1216,6 +1986,7 @@ export const Command: CommandType = {
     Search.index = null;
     this.history.index = {};
     this.typed = '';
+    this.markedTabs = [];
     this.dataElements = [];
     this.hideData();
     if (this.bar)
@@ -1417,8 +2188,13 @@ export const Command: CommandType = {
   addSettingBlock(config: any): void {
     for (const key in config) {
       if (key === 'MAPPINGS') {
-        settings.MAPPINGS += '\n' + config[key];
+        appendMappings(config[key], config.MAPPINGORIGINS || []);
         Mappings.parseCustom(settings.MAPPINGS, false);
+      } else if (key === 'MAPPINGORIGINS') {
+        continue;
+      } else if (key === 'HINTFILTERS' || key === 'AUTOCMDS') {
+        // already merged by Hints.loadSiteFilters and Autocmds.load
+        continue;
       } else if (config[key].constructor === Object) {
         settings[key] = Object.assign(settings[key], config[key]);
       } else {
@@ -1439,6 +2215,8 @@ export const Command: CommandType = {
         waitForLoad(Cursor.init, Cursor);
       }
       addListeners();
+      Autocmds.load();
+      waitForLoad(Autocmds.addListeners, Autocmds);
       if (typeof settings.AUTOFUNCTIONS === 'object') {
         Object.getOwnPropertyNames(settings.AUTOFUNCTIONS).forEach((name) => {
           eval('(function(){' + settings.AUTOFUNCTIONS[name] + '})()');
@@ -1499,6 +2277,7 @@ export const Command: CommandType = {
 
   configureSettings(_settings: any): void {
     settings = _settings;
+    Hints.loadSiteFilters(settings.sites);
     this.onSettingsLoad();
     DOM.onTitleChange((text: string) => {
       if (!Session.ignoreTitleUpdate && settings.showtabindices) {
@@ -1533,6 +2312,9 @@ export const Command: CommandType = {
     Search.settings = Object.keys(settings).filter((e) => {
       return typeof settings[e] === 'boolean';
     });
+    RUNTIME('getSettingsSchema', null, (schema: any) => {
+      Search.settingsSchema = schema;
+    });
     removeListeners();
     settings.searchlimit = +settings.searchlimit;
     if (!checkBlacklist()) {
@@ -1542,6 +2324,24 @@ export const Command: CommandType = {
     } else {
       this.init(false);
     }
+  },
+
+  // Lint a cVimrc against the mappings, commands and settings cVim knows
+  checkConfig(value: string): ConfigDiagnostic[] {
+    const schema: { [name: string]: { type: string } } = Search.settingsSchema || {};
+    if (!Search.settingsSchema) {
+      Object.keys(settings || {}).forEach((name) => {
+        schema[name] = { type: typeof settings[name] };
+      });
+    }
+    return window.lintConfig(value, {
+      settings: schema,
+      actions: Object.keys(Mappings.actions),
+      insertActions: Object.keys(Mappings.insertFunctions),
+      commands: this.descriptions.map((e) => e[0]),
+      keys: Mappings.defaults.map((e) => e[0]!),
+      insertKeys: Mappings.insertDefaults.map((e) => e[0]!)
+    });
   }
 };
 
@@ -169,120 +169,267 @@
         peg$c25 = peg$literalExpectation("map", false),
         peg$c26 = "imap",
         peg$c27 = peg$literalExpectation("imap", false),
-        peg$c28 = "unmap",
-        peg$c29 = peg$literalExpectation("unmap", false),
-        peg$c30 = "iunmap",
-        peg$c31 = peg$literalExpectation("iunmap", false),
-        peg$c32 = "command",
-        peg$c33 = peg$literalExpectation("command", false),
-        peg$c34 = "\"",
-        peg$c35 = peg$literalExpectation("\"", false),
-        peg$c36 = /^[^\n]/,
-        peg$c37 = peg$classExpectation(["\n"], true, false),
-        peg$c38 = function(a) { return a; },
-        peg$c39 = function() { return ''; },
-        peg$c40 = "'",
-        peg$c41 = peg$literalExpectation("'", false),
-        peg$c42 = function(a) { return a.join(''); },
-        peg$c43 = ".",
-        peg$c44 = peg$literalExpectation(".", false),
-        peg$c45 = "0",
-        peg$c46 = peg$literalExpectation("0", false),
-        peg$c47 = function() {
+        peg$c28 = "vmap",
+        peg$c29 = peg$literalExpectation("vmap", false),
+        peg$c30 = "cmap",
+        peg$c31 = peg$literalExpectation("cmap", false),
+        peg$c32 = "unmap",
+        peg$c33 = peg$literalExpectation("unmap", false),
+        peg$c34 = "iunmap",
+        peg$c35 = peg$literalExpectation("iunmap", false),
+        peg$c36 = "vunmap",
+        peg$c37 = peg$literalExpectation("vunmap", false),
+        peg$c38 = "cunmap",
+        peg$c39 = peg$literalExpectation("cunmap", false),
+        peg$c40 = "noremap",
+        peg$c41 = peg$literalExpectation("noremap", false),
+        peg$c42 = "nnoremap",
+        peg$c43 = peg$literalExpectation("nnoremap", false),
+        peg$c44 = "inoremap",
+        peg$c45 = peg$literalExpectation("inoremap", false),
+        peg$c46 = "vnoremap",
+        peg$c47 = peg$literalExpectation("vnoremap", false),
+        peg$c48 = "cnoremap",
+        peg$c49 = peg$literalExpectation("cnoremap", false),
+        peg$c50 = "command",
+        peg$c51 = peg$literalExpectation("command", false),
+        peg$c52 = "hintaccept",
+        peg$c53 = peg$literalExpectation("hintaccept", false),
+        peg$c54 = "hintreject",
+        peg$c55 = peg$literalExpectation("hintreject", false),
+        peg$c56 = "nextpattern",
+        peg$c57 = peg$literalExpectation("nextpattern", false),
+        peg$c58 = "prevpattern",
+        peg$c59 = peg$literalExpectation("prevpattern", false),
+        peg$c60 = "autocmd",
+        peg$c61 = peg$literalExpectation("autocmd", false),
+        peg$c62 = "augroup",
+        peg$c63 = peg$literalExpectation("augroup", false),
+        peg$c64 = "if",
+        peg$c65 = peg$literalExpectation("if", false),
+        peg$c66 = "elseif",
+        peg$c67 = peg$literalExpectation("elseif", false),
+        peg$c68 = "else",
+        peg$c69 = peg$literalExpectation("else", false),
+        peg$c70 = "endif",
+        peg$c71 = peg$literalExpectation("endif", false),
+        peg$c72 = "source",
+        peg$c73 = peg$literalExpectation("source", false),
+        peg$c74 = "\"",
+        peg$c75 = peg$literalExpectation("\"", false),
+        peg$c76 = /^[^\n]/,
+        peg$c77 = peg$classExpectation(["\n"], true, false),
+        peg$c78 = function(a) { return a; },
+        peg$c79 = function() { return ''; },
+        peg$c80 = "'",
+        peg$c81 = peg$literalExpectation("'", false),
+        peg$c82 = function(a) { return a.join(''); },
+        peg$c83 = ".",
+        peg$c84 = peg$literalExpectation(".", false),
+        peg$c85 = "0",
+        peg$c86 = peg$literalExpectation("0", false),
+        peg$c87 = function() {
             return parseFloat(text());
           },
-        peg$c48 = function() { return parseFloat(text()); },
-        peg$c49 = function() { return 0; },
-        peg$c50 = /^[1-9]/,
-        peg$c51 = peg$classExpectation([["1", "9"]], false, false),
-        peg$c52 = /^[0-9]/,
-        peg$c53 = peg$classExpectation([["0", "9"]], false, false),
-        peg$c54 = function() { return parseInt(text(), 10); },
-        peg$c55 = function(expr) {
+        peg$c88 = function() { return parseFloat(text()); },
+        peg$c89 = function() { return 0; },
+        peg$c90 = /^[1-9]/,
+        peg$c91 = peg$classExpectation([["1", "9"]], false, false),
+        peg$c92 = /^[0-9]/,
+        peg$c93 = peg$classExpectation([["0", "9"]], false, false),
+        peg$c94 = function() { return parseInt(text(), 10); },
+        peg$c95 = function(expr) {
               return expr;
             },
-        peg$c56 = ",",
-        peg$c57 = peg$literalExpectation(",", false),
-        peg$c58 = function(head, expr) {
+        peg$c96 = ",",
+        peg$c97 = peg$literalExpectation(",", false),
+        peg$c98 = function(head, expr) {
               return expr;
             },
-        peg$c59 = function(head, tail) {
+        peg$c99 = function(head, tail) {
             return [head].concat(tail);
           },
-        peg$c60 = "[",
-        peg$c61 = peg$literalExpectation("[", false),
-        peg$c62 = "]",
-        peg$c63 = peg$literalExpectation("]", false),
-        peg$c64 = function() { return []; },
-        peg$c65 = function(elems) {
+        peg$c100 = "[",
+        peg$c101 = peg$literalExpectation("[", false),
+        peg$c102 = "]",
+        peg$c103 = peg$literalExpectation("]", false),
+        peg$c104 = function() { return []; },
+        peg$c105 = function(elems) {
             return elems;
           },
-        peg$c66 = function(head, a) {
+        peg$c106 = function(head, a) {
               return a;
             },
-        peg$c67 = function(head, tail) {
+        peg$c107 = function(head, tail) {
             var result = scopeIdentifiers[head];
             tail.forEach(e => result = result[e]);
             return result;
           },
-        peg$c68 = "=",
-        peg$c69 = peg$literalExpectation("=", false),
-        peg$c70 = function(a, b) {
-            scopeIdentifiers[a] = b;
+        peg$c108 = "g:",
+        peg$c109 = peg$literalExpectation("g:", false),
+        peg$c110 = "=",
+        peg$c111 = peg$literalExpectation("=", false),
+        peg$c112 = function(a, b) {
+            if (active()) scopeIdentifiers[a] = b;
+            return null;
+          },
+        peg$c113 = function(a, b) {
+            if (active()) scopeIdentifiers[a] = b;
             var r = {}; r[a] = b; return r;
           },
-        peg$c71 = function(a, b, c) {
-            scopeIdentifiers[a] = {[b]: c};
+        peg$c114 = function(a, b, c) {
+            if (active()) scopeIdentifiers[a] = {[b]: c};
             a = objectPlural(a);
             var r = {}; r[a] = {}; r[a][b] = c; return r;
           },
-        peg$c72 = "no",
-        peg$c73 = peg$literalExpectation("no", false),
-        peg$c74 = function(a) { var r = {}; r[a] = false; return r; },
-        peg$c75 = function(a) { var r = {}; r[a] = true; return r; },
-        peg$c76 = "{",
-        peg$c77 = peg$literalExpectation("{", false),
-        peg$c78 = "}",
-        peg$c79 = peg$literalExpectation("}", false),
-        peg$c80 = function(a, b) {
+        peg$c115 = "no",
+        peg$c116 = peg$literalExpectation("no", false),
+        peg$c117 = function(a) { var r = {}; r[a] = false; return r; },
+        peg$c118 = function(a) { var r = {}; r[a] = true; return r; },
+        peg$c119 = "{",
+        peg$c120 = peg$literalExpectation("{", false),
+        peg$c121 = "}",
+        peg$c122 = peg$literalExpectation("}", false),
+        peg$c123 = function(a, b) {
             var r = {sites: {}}; r.sites[a] = b; return r;
           },
-        peg$c81 = function(a, b) { return [a].concat(b); },
-        peg$c82 = function(a) { return [a]; },
-        peg$c83 = function(a, b) {
-            return { MAPPINGS: a + ' ' + b.join(' ') };
+        peg$c124 = function(head, a) { return a; },
+        peg$c125 = function(a, b) {
+            var r = { HINTFILTERS: {} };
+            r.HINTFILTERS[a === 'hintaccept' ? 'accept' : 'reject'] = b;
+            return r;
+          },
+        peg$c126 = function(a, b) {
+            var r = { HINTFILTERS: {} };
+            r.HINTFILTERS[a.slice(0, 4)] = b;
+            return r;
+          },
+        peg$c127 = "PageLoad",
+        peg$c128 = peg$literalExpectation("PageLoad", false),
+        peg$c129 = "TabEnter",
+        peg$c130 = peg$literalExpectation("TabEnter", false),
+        peg$c131 = "TabLeave",
+        peg$c132 = peg$literalExpectation("TabLeave", false),
+        peg$c133 = "FocusInput",
+        peg$c134 = peg$literalExpectation("FocusInput", false),
+        peg$c135 = "Navigate",
+        peg$c136 = peg$literalExpectation("Navigate", false),
+        peg$c137 = function() {
+            return text();
+          },
+        peg$c138 = function(b) { return b; },
+        peg$c139 = function(a, b, c, d) {
+            return {
+              AUTOCMDS: [{
+                group: a || autocmdGroup,
+                events: b,
+                pattern: c,
+                command: d.join('')
+              }]
+            };
+          },
+        peg$c140 = function(a) {
+            if (active()) autocmdGroup = a === 'END' ? '' : a;
+            return null;
+          },
+        peg$c141 = function(a) {
+            if (!scopeIdentifiers.hasOwnProperty(a)) error('undefined variable: ' + a);
+            return scopeIdentifiers[a];
+          },
+        peg$c142 = function(a) {
+            if (!conditionContext.hasOwnProperty(a)) error('unknown condition: ' + a);
+            return conditionContext[a];
+          },
+        peg$c143 = "==",
+        peg$c144 = peg$literalExpectation("==", false),
+        peg$c145 = "!=",
+        peg$c146 = peg$literalExpectation("!=", false),
+        peg$c147 = ">=",
+        peg$c148 = peg$literalExpectation(">=", false),
+        peg$c149 = "<=",
+        peg$c150 = peg$literalExpectation("<=", false),
+        peg$c151 = "=~",
+        peg$c152 = peg$literalExpectation("=~", false),
+        peg$c153 = ">",
+        peg$c154 = peg$literalExpectation(">", false),
+        peg$c155 = "<",
+        peg$c156 = peg$literalExpectation("<", false),
+        peg$c157 = function(a, op, b) {
+            return compare(a, op, b);
+          },
+        peg$c158 = function(a) { return !!a; },
+        peg$c159 = "!",
+        peg$c160 = peg$literalExpectation("!", false),
+        peg$c161 = function(a) { return !a; },
+        peg$c162 = "(",
+        peg$c163 = peg$literalExpectation("(", false),
+        peg$c164 = ")",
+        peg$c165 = peg$literalExpectation(")", false),
+        peg$c166 = "&&",
+        peg$c167 = peg$literalExpectation("&&", false),
+        peg$c168 = function(head, tail) {
+            return tail.reduce(function(a, b) { return a && b; }, head);
+          },
+        peg$c169 = "||",
+        peg$c170 = peg$literalExpectation("||", false),
+        peg$c171 = function(head, tail) {
+            return tail.reduce(function(a, b) { return a || b; }, head);
+          },
+        peg$c172 = function(a) {
+            conditions.push({ taken: a, active: a });
+            return a;
+          },
+        peg$c173 = function(a) {
+            var condition = conditions[conditions.length - 1];
+            condition.active = !condition.taken && a;
+            condition.taken = condition.taken || a;
+            return condition.active;
+          },
+        peg$c174 = function() {
+            var condition = conditions[conditions.length - 1];
+            condition.active = !condition.taken;
+            condition.taken = true;
+            return condition.active;
           },
-        peg$c84 = function(a, b, c) {
-            return { MAPPINGS: [a, b, c.join('')].join(' ') };
+        peg$c175 = function(a, b) {
+            return a ? b : [];
           },
-        peg$c85 = function(a) {
-            return { MAPPINGS: 'call ' + a.join('') };
+        peg$c176 = function(a, b, c) {
+            conditions.pop();
+            return [a ? b : []].concat(c);
           },
-        peg$c86 = /^[a-zA-Z]/,
-        peg$c87 = peg$classExpectation([["a", "z"], ["A", "Z"]], false, false),
-        peg$c88 = function(a, b) {
+        peg$c177 = function(a, b) { return [a].concat(b); },
+        peg$c178 = function(a) { return [a]; },
+        peg$c179 = function(a, b) {
+            return { MAPPINGS: a + ' ' + b.join(' '), LINE: location().start.line };
+          },
+        peg$c180 = function(a, b, c) {
+            return { MAPPINGS: [a, b, c.join('')].join(' '), LINE: location().start.line };
+          },
+        peg$c181 = function(a) {
+            return { MAPPINGS: 'call ' + a.join(''), LINE: location().start.line };
+          },
+        peg$c182 = /^[a-zA-Z]/,
+        peg$c183 = peg$classExpectation([["a", "z"], ["A", "Z"]], false, false),
+        peg$c184 = function(a, b) {
             var r = { COMMANDS: {} };
             r.COMMANDS[a.join('')] = b.join('');
             return r;
           },
-        peg$c89 = "}}",
-        peg$c90 = peg$literalExpectation("}}", false),
-        peg$c91 = function(a, b) {
+        peg$c185 = "}}",
+        peg$c186 = peg$literalExpectation("}}", false),
+        peg$c187 = function(a, b) {
             return [a].concat(b);
           },
-        peg$c92 = "(",
-        peg$c93 = peg$literalExpectation("(", false),
-        peg$c94 = ")",
-        peg$c95 = peg$literalExpectation(")", false),
-        peg$c96 = function(a) { return a || []; },
-        peg$c97 = "{{",
-        peg$c98 = peg$literalExpectation("{{", false),
-        peg$c99 = function(a) {
+        peg$c188 = function(a) { return a || []; },
+        peg$c189 = "{{",
+        peg$c190 = peg$literalExpectation("{{", false),
+        peg$c191 = function(a) {
             return a.join('');
           },
-        peg$c100 = "->",
-        peg$c101 = peg$literalExpectation("->", false),
-        peg$c102 = function(a) {
+        peg$c192 = "->",
+        peg$c193 = peg$literalExpectation("->", false),
+        peg$c194 = function(a) {
             var result = {
               AUTOFUNCTIONS: {}
             };
@@ -290,7 +437,7 @@
             autoJsLength++;
             return result;
           },
-        peg$c103 = function(a, b, c) {
+        peg$c195 = function(a, b, c) {
             var result = {
               FUNCTIONS: {
               }
@@ -299,15 +446,15 @@
                                   '{' + c + '})';
             return result;
           },
-        peg$c104 = "unmapAll",
-        peg$c105 = peg$literalExpectation("unmapAll", false),
-        peg$c106 = "iunmapAll",
-        peg$c107 = peg$literalExpectation("iunmapAll", false),
-        peg$c108 = function() {
-            return {MAPPINGS: text() };
+        peg$c196 = "unmapAll",
+        peg$c197 = peg$literalExpectation("unmapAll", false),
+        peg$c198 = "iunmapAll",
+        peg$c199 = peg$literalExpectation("iunmapAll", false),
+        peg$c200 = function() {
+            return {MAPPINGS: text(), LINE: location().start.line };
           },
-        peg$c109 = function() { return parseScope([]); },
-        peg$c110 = function(a) { return parseScope(a); },
+        peg$c201 = function() { return parseScope([]); },
+        peg$c202 = function(a) { return parseScope(a); },
 
         peg$currPos          = 0,
         peg$savedPos         = 0,
@@ -893,12 +1040,12 @@
       return s0;
     }
 
-    function peg$parseUNMAP() {
+    function peg$parseVMAP() {
       var s0;
 
-      if (input.substr(peg$currPos, 5) === peg$c28) {
+      if (input.substr(peg$currPos, 4) === peg$c28) {
         s0 = peg$c28;
-        peg$currPos += 5;
+        peg$currPos += 4;
       } else {
         s0 = peg$FAILED;
         if (peg$silentFails === 0) { peg$fail(peg$c29); }
@@ -907,12 +1054,12 @@
       return s0;
     }
 
-    function peg$parseIUNMAP() {
+    function peg$parseCMAP() {
       var s0;
 
-      if (input.substr(peg$currPos, 6) === peg$c30) {
+      if (input.substr(peg$currPos, 4) === peg$c30) {
         s0 = peg$c30;
-        peg$currPos += 6;
+        peg$currPos += 4;
       } else {
         s0 = peg$FAILED;
         if (peg$silentFails === 0) { peg$fail(peg$c31); }
@@ -921,12 +1068,12 @@
       return s0;
     }
 
-    function peg$parseCOMMAND() {
+    function peg$parseUNMAP() {
       var s0;
 
-      if (input.substr(peg$currPos, 7) === peg$c32) {
+      if (input.substr(peg$currPos, 5) === peg$c32) {
         s0 = peg$c32;
-        peg$currPos += 7;
+        peg$currPos += 5;
       } else {
         s0 = peg$FAILED;
         if (peg$silentFails === 0) { peg$fail(peg$c33); }
@@ -935,6 +1082,266 @@
       return s0;
     }
 
+    function peg$parseIUNMAP() {
+      var s0;
+
+      if (input.substr(peg$currPos, 6) === peg$c34) {
+        s0 = peg$c34;
+        peg$currPos += 6;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c35); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseVUNMAP() {
+      var s0;
+
+      if (input.substr(peg$currPos, 6) === peg$c36) {
+        s0 = peg$c36;
+        peg$currPos += 6;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c37); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseCUNMAP() {
+      var s0;
+
+      if (input.substr(peg$currPos, 6) === peg$c38) {
+        s0 = peg$c38;
+        peg$currPos += 6;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c39); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseNOREMAP() {
+      var s0;
+
+      if (input.substr(peg$currPos, 7) === peg$c40) {
+        s0 = peg$c40;
+        peg$currPos += 7;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c41); }
+      }
+      if (s0 === peg$FAILED) {
+        if (input.substr(peg$currPos, 8) === peg$c42) {
+          s0 = peg$c42;
+          peg$currPos += 8;
+        } else {
+          s0 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c43); }
+        }
+        if (s0 === peg$FAILED) {
+          if (input.substr(peg$currPos, 8) === peg$c44) {
+            s0 = peg$c44;
+            peg$currPos += 8;
+          } else {
+            s0 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c45); }
+          }
+          if (s0 === peg$FAILED) {
+            if (input.substr(peg$currPos, 8) === peg$c46) {
+              s0 = peg$c46;
+              peg$currPos += 8;
+            } else {
+              s0 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c47); }
+            }
+            if (s0 === peg$FAILED) {
+              if (input.substr(peg$currPos, 8) === peg$c48) {
+                s0 = peg$c48;
+                peg$currPos += 8;
+              } else {
+                s0 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$c49); }
+              }
+            }
+          }
+        }
+      }
+
+      return s0;
+    }
+
+    function peg$parseCOMMAND() {
+      var s0;
+
+      if (input.substr(peg$currPos, 7) === peg$c50) {
+        s0 = peg$c50;
+        peg$currPos += 7;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c51); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseHINTACCEPT() {
+      var s0;
+
+      if (input.substr(peg$currPos, 10) === peg$c52) {
+        s0 = peg$c52;
+        peg$currPos += 10;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c53); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseHINTREJECT() {
+      var s0;
+
+      if (input.substr(peg$currPos, 10) === peg$c54) {
+        s0 = peg$c54;
+        peg$currPos += 10;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c55); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseNEXTPATTERN() {
+      var s0;
+
+      if (input.substr(peg$currPos, 11) === peg$c56) {
+        s0 = peg$c56;
+        peg$currPos += 11;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c57); }
+      }
+
+      return s0;
+    }
+
+    function peg$parsePREVPATTERN() {
+      var s0;
+
+      if (input.substr(peg$currPos, 11) === peg$c58) {
+        s0 = peg$c58;
+        peg$currPos += 11;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c59); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseAUTOCMD() {
+      var s0;
+
+      if (input.substr(peg$currPos, 7) === peg$c60) {
+        s0 = peg$c60;
+        peg$currPos += 7;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c61); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseAUGROUP() {
+      var s0;
+
+      if (input.substr(peg$currPos, 7) === peg$c62) {
+        s0 = peg$c62;
+        peg$currPos += 7;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c63); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseIF() {
+      var s0;
+
+      if (input.substr(peg$currPos, 2) === peg$c64) {
+        s0 = peg$c64;
+        peg$currPos += 2;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c65); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseELSEIF() {
+      var s0;
+
+      if (input.substr(peg$currPos, 6) === peg$c66) {
+        s0 = peg$c66;
+        peg$currPos += 6;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c67); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseELSE() {
+      var s0;
+
+      if (input.substr(peg$currPos, 4) === peg$c68) {
+        s0 = peg$c68;
+        peg$currPos += 4;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c69); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseENDIF() {
+      var s0;
+
+      if (input.substr(peg$currPos, 5) === peg$c70) {
+        s0 = peg$c70;
+        peg$currPos += 5;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c71); }
+      }
+
+      return s0;
+    }
+
+    function peg$parseSOURCE() {
+      var s0;
+
+      if (input.substr(peg$currPos, 6) === peg$c72) {
+        s0 = peg$c72;
+        peg$currPos += 6;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c73); }
+      }
+
+      return s0;
+    }
+
     function peg$parseComment() {
       var s0, s1, s2, s3, s4;
 
@@ -947,29 +1354,29 @@
       }
       if (s1 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 34) {
-          s2 = peg$c34;
+          s2 = peg$c74;
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c35); }
+          if (peg$silentFails === 0) { peg$fail(peg$c75); }
         }
         if (s2 !== peg$FAILED) {
           s3 = [];
-          if (peg$c36.test(input.charAt(peg$currPos))) {
+          if (peg$c76.test(input.charAt(peg$currPos))) {
             s4 = input.charAt(peg$currPos);
             peg$currPos++;
           } else {
             s4 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c37); }
+            if (peg$silentFails === 0) { peg$fail(peg$c77); }
           }
           while (s4 !== peg$FAILED) {
             s3.push(s4);
-            if (peg$c36.test(input.charAt(peg$currPos))) {
+            if (peg$c76.test(input.charAt(peg$currPos))) {
               s4 = input.charAt(peg$currPos);
               peg$currPos++;
             } else {
               s4 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c37); }
+              if (peg$silentFails === 0) { peg$fail(peg$c77); }
             }
           }
           if (s3 !== peg$FAILED) {
@@ -1004,16 +1411,16 @@
         if (peg$silentFails === 0) { peg$fail(peg$c7); }
       }
       if (s1 !== peg$FAILED) {
-        if (peg$c36.test(input.charAt(peg$currPos))) {
+        if (peg$c76.test(input.charAt(peg$currPos))) {
           s2 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c37); }
+          if (peg$silentFails === 0) { peg$fail(peg$c77); }
         }
         if (s2 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c38(s2);
+          s1 = peg$c78(s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -1024,19 +1431,19 @@
         s0 = peg$FAILED;
       }
       if (s0 === peg$FAILED) {
-        if (peg$c36.test(input.charAt(peg$currPos))) {
+        if (peg$c76.test(input.charAt(peg$currPos))) {
           s0 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s0 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c37); }
+          if (peg$silentFails === 0) { peg$fail(peg$c77); }
         }
         if (s0 === peg$FAILED) {
           s0 = peg$currPos;
           s1 = peg$parse_();
           if (s1 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c39();
+            s1 = peg$c79();
           }
           s0 = s1;
         }
@@ -1052,11 +1459,11 @@
       s1 = peg$currPos;
       peg$silentFails++;
       if (input.charCodeAt(peg$currPos) === 34) {
-        s2 = peg$c34;
+        s2 = peg$c74;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c35); }
+        if (peg$silentFails === 0) { peg$fail(peg$c75); }
       }
       peg$silentFails--;
       if (s2 === peg$FAILED) {
@@ -1069,7 +1476,7 @@
         s2 = peg$parseStringCharacter();
         if (s2 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c38(s2);
+          s1 = peg$c78(s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -1090,11 +1497,11 @@
       s1 = peg$currPos;
       peg$silentFails++;
       if (input.charCodeAt(peg$currPos) === 39) {
-        s2 = peg$c40;
+        s2 = peg$c80;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c41); }
+        if (peg$silentFails === 0) { peg$fail(peg$c81); }
       }
       peg$silentFails--;
       if (s2 === peg$FAILED) {
@@ -1107,7 +1514,7 @@
         s2 = peg$parseStringCharacter();
         if (s2 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c38(s2);
+          s1 = peg$c78(s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -1126,11 +1533,11 @@
 
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 34) {
-        s1 = peg$c34;
+        s1 = peg$c74;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c35); }
+        if (peg$silentFails === 0) { peg$fail(peg$c75); }
       }
       if (s1 !== peg$FAILED) {
         s2 = [];
@@ -1141,15 +1548,15 @@
         }
         if (s2 !== peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 34) {
-            s3 = peg$c34;
+            s3 = peg$c74;
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c35); }
+            if (peg$silentFails === 0) { peg$fail(peg$c75); }
           }
           if (s3 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c42(s2);
+            s1 = peg$c82(s2);
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -1166,11 +1573,11 @@
       if (s0 === peg$FAILED) {
         s0 = peg$currPos;
         if (input.charCodeAt(peg$currPos) === 39) {
-          s1 = peg$c40;
+          s1 = peg$c80;
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c41); }
+          if (peg$silentFails === 0) { peg$fail(peg$c81); }
         }
         if (s1 !== peg$FAILED) {
           s2 = [];
@@ -1181,15 +1588,15 @@
           }
           if (s2 !== peg$FAILED) {
             if (input.charCodeAt(peg$currPos) === 39) {
-              s3 = peg$c40;
+              s3 = peg$c80;
               peg$currPos++;
             } else {
               s3 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c41); }
+              if (peg$silentFails === 0) { peg$fail(peg$c81); }
             }
             if (s3 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c42(s2);
+              s1 = peg$c82(s2);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -1215,30 +1622,30 @@
       s1 = peg$parseIntegerLiteral();
       if (s1 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 46) {
-          s2 = peg$c43;
+          s2 = peg$c83;
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c44); }
+          if (peg$silentFails === 0) { peg$fail(peg$c84); }
         }
         if (s2 !== peg$FAILED) {
           s3 = peg$currPos;
           s4 = [];
           if (input.charCodeAt(peg$currPos) === 48) {
-            s5 = peg$c45;
+            s5 = peg$c85;
             peg$currPos++;
           } else {
             s5 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c46); }
+            if (peg$silentFails === 0) { peg$fail(peg$c86); }
           }
           while (s5 !== peg$FAILED) {
             s4.push(s5);
             if (input.charCodeAt(peg$currPos) === 48) {
-              s5 = peg$c45;
+              s5 = peg$c85;
               peg$currPos++;
             } else {
               s5 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c46); }
+              if (peg$silentFails === 0) { peg$fail(peg$c86); }
             }
           }
           if (s4 !== peg$FAILED) {
@@ -1257,21 +1664,21 @@
           if (s3 === peg$FAILED) {
             s3 = [];
             if (input.charCodeAt(peg$currPos) === 48) {
-              s4 = peg$c45;
+              s4 = peg$c85;
               peg$currPos++;
             } else {
               s4 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c46); }
+              if (peg$silentFails === 0) { peg$fail(peg$c86); }
             }
             if (s4 !== peg$FAILED) {
               while (s4 !== peg$FAILED) {
                 s3.push(s4);
                 if (input.charCodeAt(peg$currPos) === 48) {
-                  s4 = peg$c45;
+                  s4 = peg$c85;
                   peg$currPos++;
                 } else {
                   s4 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c46); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c86); }
                 }
               }
             } else {
@@ -1283,7 +1690,7 @@
           }
           if (s3 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c47();
+            s1 = peg$c87();
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -1300,30 +1707,30 @@
       if (s0 === peg$FAILED) {
         s0 = peg$currPos;
         if (input.charCodeAt(peg$currPos) === 46) {
-          s1 = peg$c43;
+          s1 = peg$c83;
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c44); }
+          if (peg$silentFails === 0) { peg$fail(peg$c84); }
         }
         if (s1 !== peg$FAILED) {
           s2 = peg$currPos;
           s3 = [];
           if (input.charCodeAt(peg$currPos) === 48) {
-            s4 = peg$c45;
+            s4 = peg$c85;
             peg$currPos++;
           } else {
             s4 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c46); }
+            if (peg$silentFails === 0) { peg$fail(peg$c86); }
           }
           while (s4 !== peg$FAILED) {
             s3.push(s4);
             if (input.charCodeAt(peg$currPos) === 48) {
-              s4 = peg$c45;
+              s4 = peg$c85;
               peg$currPos++;
             } else {
               s4 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c46); }
+              if (peg$silentFails === 0) { peg$fail(peg$c86); }
             }
           }
           if (s3 !== peg$FAILED) {
@@ -1342,21 +1749,21 @@
           if (s2 === peg$FAILED) {
             s2 = [];
             if (input.charCodeAt(peg$currPos) === 48) {
-              s3 = peg$c45;
+              s3 = peg$c85;
               peg$currPos++;
             } else {
               s3 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c46); }
+              if (peg$silentFails === 0) { peg$fail(peg$c86); }
             }
             if (s3 !== peg$FAILED) {
               while (s3 !== peg$FAILED) {
                 s2.push(s3);
                 if (input.charCodeAt(peg$currPos) === 48) {
-                  s3 = peg$c45;
+                  s3 = peg$c85;
                   peg$currPos++;
                 } else {
                   s3 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c46); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c86); }
                 }
               }
             } else {
@@ -1365,7 +1772,7 @@
           }
           if (s2 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c48();
+            s1 = peg$c88();
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -1385,48 +1792,48 @@
 
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 48) {
-        s1 = peg$c45;
+        s1 = peg$c85;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c46); }
+        if (peg$silentFails === 0) { peg$fail(peg$c86); }
       }
       if (s1 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c49();
+        s1 = peg$c89();
       }
       s0 = s1;
       if (s0 === peg$FAILED) {
         s0 = peg$currPos;
-        if (peg$c50.test(input.charAt(peg$currPos))) {
+        if (peg$c90.test(input.charAt(peg$currPos))) {
           s1 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c51); }
+          if (peg$silentFails === 0) { peg$fail(peg$c91); }
         }
         if (s1 !== peg$FAILED) {
           s2 = [];
-          if (peg$c52.test(input.charAt(peg$currPos))) {
+          if (peg$c92.test(input.charAt(peg$currPos))) {
             s3 = input.charAt(peg$currPos);
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c53); }
+            if (peg$silentFails === 0) { peg$fail(peg$c93); }
           }
           while (s3 !== peg$FAILED) {
             s2.push(s3);
-            if (peg$c52.test(input.charAt(peg$currPos))) {
+            if (peg$c92.test(input.charAt(peg$currPos))) {
               s3 = input.charAt(peg$currPos);
               peg$currPos++;
             } else {
               s3 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c53); }
+              if (peg$silentFails === 0) { peg$fail(peg$c93); }
             }
           }
           if (s2 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c54();
+            s1 = peg$c94();
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -1462,7 +1869,7 @@
         s3 = peg$parseExpression();
         if (s3 !== peg$FAILED) {
           peg$savedPos = s1;
-          s2 = peg$c55(s3);
+          s2 = peg$c95(s3);
           s1 = s2;
         } else {
           peg$currPos = s1;
@@ -1478,11 +1885,11 @@
         s4 = peg$parse__();
         if (s4 !== peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 44) {
-            s5 = peg$c56;
+            s5 = peg$c96;
             peg$currPos++;
           } else {
             s5 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c57); }
+            if (peg$silentFails === 0) { peg$fail(peg$c97); }
           }
           if (s5 !== peg$FAILED) {
             s6 = peg$parse__();
@@ -1490,7 +1897,7 @@
               s7 = peg$parseExpression();
               if (s7 !== peg$FAILED) {
                 peg$savedPos = s3;
-                s4 = peg$c58(s1, s7);
+                s4 = peg$c98(s1, s7);
                 s3 = s4;
               } else {
                 peg$currPos = s3;
@@ -1514,11 +1921,11 @@
           s4 = peg$parse__();
           if (s4 !== peg$FAILED) {
             if (input.charCodeAt(peg$currPos) === 44) {
-              s5 = peg$c56;
+              s5 = peg$c96;
               peg$currPos++;
             } else {
               s5 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c57); }
+              if (peg$silentFails === 0) { peg$fail(peg$c97); }
             }
             if (s5 !== peg$FAILED) {
               s6 = peg$parse__();
@@ -1526,7 +1933,7 @@
                 s7 = peg$parseExpression();
                 if (s7 !== peg$FAILED) {
                   peg$savedPos = s3;
-                  s4 = peg$c58(s1, s7);
+                  s4 = peg$c98(s1, s7);
                   s3 = s4;
                 } else {
                   peg$currPos = s3;
@@ -1547,7 +1954,7 @@
         }
         if (s2 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c59(s1, s2);
+          s1 = peg$c99(s1, s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -1566,25 +1973,25 @@
 
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 91) {
-        s1 = peg$c60;
+        s1 = peg$c100;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c61); }
+        if (peg$silentFails === 0) { peg$fail(peg$c101); }
       }
       if (s1 !== peg$FAILED) {
         s2 = peg$parse__();
         if (s2 !== peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 93) {
-            s3 = peg$c62;
+            s3 = peg$c102;
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c63); }
+            if (peg$silentFails === 0) { peg$fail(peg$c103); }
           }
           if (s3 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c64();
+            s1 = peg$c104();
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -1601,11 +2008,11 @@
       if (s0 === peg$FAILED) {
         s0 = peg$currPos;
         if (input.charCodeAt(peg$currPos) === 91) {
-          s1 = peg$c60;
+          s1 = peg$c100;
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c61); }
+          if (peg$silentFails === 0) { peg$fail(peg$c101); }
         }
         if (s1 !== peg$FAILED) {
           s2 = peg$parseExpressionList();
@@ -1613,15 +2020,15 @@
             s3 = peg$parse__();
             if (s3 !== peg$FAILED) {
               if (input.charCodeAt(peg$currPos) === 93) {
-                s4 = peg$c62;
+                s4 = peg$c102;
                 peg$currPos++;
               } else {
                 s4 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c63); }
+                if (peg$silentFails === 0) { peg$fail(peg$c103); }
               }
               if (s4 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c65(s2);
+                s1 = peg$c105(s2);
                 s0 = s1;
               } else {
                 peg$currPos = s0;
@@ -1648,18 +2055,21 @@
       var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
 
       s0 = peg$currPos;
-      s1 = peg$parseIdentifier();
+      s1 = peg$parseVariableName();
+      if (s1 === peg$FAILED) {
+        s1 = peg$parseIdentifier();
+      }
       if (s1 !== peg$FAILED) {
         s2 = [];
         s3 = peg$currPos;
         s4 = peg$parse__();
         if (s4 !== peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 91) {
-            s5 = peg$c60;
+            s5 = peg$c100;
             peg$currPos++;
           } else {
             s5 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c61); }
+            if (peg$silentFails === 0) { peg$fail(peg$c101); }
           }
           if (s5 !== peg$FAILED) {
             s6 = peg$parse__();
@@ -1669,15 +2079,15 @@
                 s8 = peg$parse__();
                 if (s8 !== peg$FAILED) {
                   if (input.charCodeAt(peg$currPos) === 93) {
-                    s9 = peg$c62;
+                    s9 = peg$c102;
                     peg$currPos++;
                   } else {
                     s9 = peg$FAILED;
-                    if (peg$silentFails === 0) { peg$fail(peg$c63); }
+                    if (peg$silentFails === 0) { peg$fail(peg$c103); }
                   }
                   if (s9 !== peg$FAILED) {
                     peg$savedPos = s3;
-                    s4 = peg$c66(s1, s7);
+                    s4 = peg$c106(s1, s7);
                     s3 = s4;
                   } else {
                     peg$currPos = s3;
@@ -1709,11 +2119,11 @@
           s4 = peg$parse__();
           if (s4 !== peg$FAILED) {
             if (input.charCodeAt(peg$currPos) === 91) {
-              s5 = peg$c60;
+              s5 = peg$c100;
               peg$currPos++;
             } else {
               s5 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c61); }
+              if (peg$silentFails === 0) { peg$fail(peg$c101); }
             }
             if (s5 !== peg$FAILED) {
               s6 = peg$parse__();
@@ -1723,15 +2133,15 @@
                   s8 = peg$parse__();
                   if (s8 !== peg$FAILED) {
                     if (input.charCodeAt(peg$currPos) === 93) {
-                      s9 = peg$c62;
+                      s9 = peg$c102;
                       peg$currPos++;
                     } else {
                       s9 = peg$FAILED;
-                      if (peg$silentFails === 0) { peg$fail(peg$c63); }
+                      if (peg$silentFails === 0) { peg$fail(peg$c103); }
                     }
                     if (s9 !== peg$FAILED) {
                       peg$savedPos = s3;
-                      s4 = peg$c66(s1, s7);
+                      s4 = peg$c106(s1, s7);
                       s3 = s4;
                     } else {
                       peg$currPos = s3;
@@ -1760,7 +2170,7 @@
         }
         if (s2 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c67(s1, s2);
+          s1 = peg$c107(s1, s2);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -1791,6 +2201,35 @@
       return s0;
     }
 
+    function peg$parseVariableName() {
+      var s0, s1, s2;
+
+      s0 = peg$currPos;
+      if (input.substr(peg$currPos, 2) === peg$c108) {
+        s1 = peg$c108;
+        peg$currPos += 2;
+      } else {
+        s1 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c109); }
+      }
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parseIdentifier();
+        if (s2 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c15();
+          s0 = s1;
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
     function peg$parseLetStatement() {
       var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
 
@@ -1799,16 +2238,16 @@
       if (s1 !== peg$FAILED) {
         s2 = peg$parse_();
         if (s2 !== peg$FAILED) {
-          s3 = peg$parseIdentifier();
+          s3 = peg$parseVariableName();
           if (s3 !== peg$FAILED) {
             s4 = peg$parse__();
             if (s4 !== peg$FAILED) {
               if (input.charCodeAt(peg$currPos) === 61) {
-                s5 = peg$c68;
+                s5 = peg$c110;
                 peg$currPos++;
               } else {
                 s5 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c69); }
+                if (peg$silentFails === 0) { peg$fail(peg$c111); }
               }
               if (s5 !== peg$FAILED) {
                 s6 = peg$parse__();
@@ -1816,7 +2255,7 @@
                   s7 = peg$parseExpression();
                   if (s7 !== peg$FAILED) {
                     peg$savedPos = s0;
-                    s1 = peg$c70(s3, s7);
+                    s1 = peg$c112(s3, s7);
                     s0 = s1;
                   } else {
                     peg$currPos = s0;
@@ -1854,32 +2293,89 @@
           if (s2 !== peg$FAILED) {
             s3 = peg$parseIdentifier();
             if (s3 !== peg$FAILED) {
-              s4 = peg$parse_();
+              s4 = peg$parse__();
               if (s4 !== peg$FAILED) {
-                s5 = peg$parseIdentifier();
-                if (s5 === peg$FAILED) {
-                  s5 = peg$parseNumberLiteral();
+                if (input.charCodeAt(peg$currPos) === 61) {
+                  s5 = peg$c110;
+                  peg$currPos++;
+                } else {
+                  s5 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c111); }
                 }
                 if (s5 !== peg$FAILED) {
                   s6 = peg$parse__();
                   if (s6 !== peg$FAILED) {
-                    if (input.charCodeAt(peg$currPos) === 61) {
-                      s7 = peg$c68;
-                      peg$currPos++;
+                    s7 = peg$parseExpression();
+                    if (s7 !== peg$FAILED) {
+                      peg$savedPos = s0;
+                      s1 = peg$c113(s3, s7);
+                      s0 = s1;
                     } else {
-                      s7 = peg$FAILED;
-                      if (peg$silentFails === 0) { peg$fail(peg$c69); }
+                      peg$currPos = s0;
+                      s0 = peg$FAILED;
                     }
-                    if (s7 !== peg$FAILED) {
-                      s8 = peg$parse__();
-                      if (s8 !== peg$FAILED) {
-                        s9 = peg$parseExpression();
-                        if (s9 !== peg$FAILED) {
-                          peg$savedPos = s0;
-                          s1 = peg$c71(s3, s5, s9);
-                          s0 = s1;
-                        } else {
-                          peg$currPos = s0;
+                  } else {
+                    peg$currPos = s0;
+                    s0 = peg$FAILED;
+                  }
+                } else {
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
+                }
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+        if (s0 === peg$FAILED) {
+          s0 = peg$currPos;
+          s1 = peg$parseLET();
+          if (s1 !== peg$FAILED) {
+            s2 = peg$parse_();
+            if (s2 !== peg$FAILED) {
+              s3 = peg$parseIdentifier();
+              if (s3 !== peg$FAILED) {
+                s4 = peg$parse_();
+                if (s4 !== peg$FAILED) {
+                  s5 = peg$parseIdentifier();
+                  if (s5 === peg$FAILED) {
+                    s5 = peg$parseNumberLiteral();
+                  }
+                  if (s5 !== peg$FAILED) {
+                    s6 = peg$parse__();
+                    if (s6 !== peg$FAILED) {
+                      if (input.charCodeAt(peg$currPos) === 61) {
+                        s7 = peg$c110;
+                        peg$currPos++;
+                      } else {
+                        s7 = peg$FAILED;
+                        if (peg$silentFails === 0) { peg$fail(peg$c111); }
+                      }
+                      if (s7 !== peg$FAILED) {
+                        s8 = peg$parse__();
+                        if (s8 !== peg$FAILED) {
+                          s9 = peg$parseExpression();
+                          if (s9 !== peg$FAILED) {
+                            peg$savedPos = s0;
+                            s1 = peg$c114(s3, s5, s9);
+                            s0 = s1;
+                          } else {
+                            peg$currPos = s0;
+                            s0 = peg$FAILED;
+                          }
+                        } else {
+                          peg$currPos = s0;
                           s0 = peg$FAILED;
                         }
                       } else {
@@ -1910,40 +2406,1070 @@
             peg$currPos = s0;
             s0 = peg$FAILED;
           }
+        }
+      }
+
+      return s0;
+    }
+
+    function peg$parseSetStatement() {
+      var s0, s1, s2, s3, s4;
+
+      s0 = peg$currPos;
+      s1 = peg$parseSET();
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 !== peg$FAILED) {
+          if (input.substr(peg$currPos, 2) === peg$c115) {
+            s3 = peg$c115;
+            peg$currPos += 2;
+          } else {
+            s3 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c116); }
+          }
+          if (s3 !== peg$FAILED) {
+            s4 = peg$parseIdentifier();
+            if (s4 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c117(s4);
+              s0 = s1;
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+      if (s0 === peg$FAILED) {
+        s0 = peg$currPos;
+        s1 = peg$parseSET();
+        if (s1 !== peg$FAILED) {
+          s2 = peg$parse_();
+          if (s2 !== peg$FAILED) {
+            s3 = peg$currPos;
+            peg$silentFails++;
+            if (input.substr(peg$currPos, 2) === peg$c115) {
+              s4 = peg$c115;
+              peg$currPos += 2;
+            } else {
+              s4 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c116); }
+            }
+            peg$silentFails--;
+            if (s4 === peg$FAILED) {
+              s3 = void 0;
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+            if (s3 !== peg$FAILED) {
+              s4 = peg$parseIdentifier();
+              if (s4 !== peg$FAILED) {
+                peg$savedPos = s0;
+                s1 = peg$c118(s4);
+                s0 = s1;
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      }
+
+      return s0;
+    }
+
+    function peg$parseSiteStatement() {
+      var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+
+      s0 = peg$currPos;
+      s1 = peg$parseSITE();
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 !== peg$FAILED) {
+          s3 = peg$parseStringLiteral();
+          if (s3 !== peg$FAILED) {
+            s4 = peg$parse__();
+            if (s4 !== peg$FAILED) {
+              if (input.charCodeAt(peg$currPos) === 123) {
+                s5 = peg$c119;
+                peg$currPos++;
+              } else {
+                s5 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$c120); }
+              }
+              if (s5 !== peg$FAILED) {
+                s6 = [];
+                s7 = peg$parseWhiteSpace();
+                while (s7 !== peg$FAILED) {
+                  s6.push(s7);
+                  s7 = peg$parseWhiteSpace();
+                }
+                if (s6 !== peg$FAILED) {
+                  s7 = peg$parseEOL();
+                  if (s7 !== peg$FAILED) {
+                    s8 = peg$parseScope();
+                    if (s8 !== peg$FAILED) {
+                      if (input.charCodeAt(peg$currPos) === 125) {
+                        s9 = peg$c121;
+                        peg$currPos++;
+                      } else {
+                        s9 = peg$FAILED;
+                        if (peg$silentFails === 0) { peg$fail(peg$c122); }
+                      }
+                      if (s9 !== peg$FAILED) {
+                        peg$savedPos = s0;
+                        s1 = peg$c123(s3, s8);
+                        s0 = s1;
+                      } else {
+                        peg$currPos = s0;
+                        s0 = peg$FAILED;
+                      }
+                    } else {
+                      peg$currPos = s0;
+                      s0 = peg$FAILED;
+                    }
+                  } else {
+                    peg$currPos = s0;
+                    s0 = peg$FAILED;
+                  }
+                } else {
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
+                }
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
+    function peg$parseSelectorList() {
+      var s0, s1, s2, s3, s4, s5;
+
+      s0 = peg$currPos;
+      s1 = peg$parseStringLiteral();
+      if (s1 !== peg$FAILED) {
+        s2 = [];
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 !== peg$FAILED) {
+          s5 = peg$parseStringLiteral();
+          if (s5 !== peg$FAILED) {
+            peg$savedPos = s3;
+            s4 = peg$c124(s1, s5);
+            s3 = s4;
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+        while (s3 !== peg$FAILED) {
+          s2.push(s3);
+          s3 = peg$currPos;
+          s4 = peg$parse_();
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseStringLiteral();
+            if (s5 !== peg$FAILED) {
+              peg$savedPos = s3;
+              s4 = peg$c124(s1, s5);
+              s3 = s4;
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        }
+        if (s2 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c99(s1, s2);
+          s0 = s1;
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
+    function peg$parseHintFilterStatement() {
+      var s0, s1, s2, s3;
+
+      s0 = peg$currPos;
+      s1 = peg$parseHINTACCEPT();
+      if (s1 === peg$FAILED) {
+        s1 = peg$parseHINTREJECT();
+      }
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 !== peg$FAILED) {
+          s3 = peg$parseSelectorList();
+          if (s3 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s1 = peg$c125(s1, s3);
+            s0 = s1;
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+      if (s0 === peg$FAILED) {
+        s0 = peg$currPos;
+        s1 = peg$parseNEXTPATTERN();
+        if (s1 === peg$FAILED) {
+          s1 = peg$parsePREVPATTERN();
+        }
+        if (s1 !== peg$FAILED) {
+          s2 = peg$parse_();
+          if (s2 !== peg$FAILED) {
+            s3 = peg$parseStringLiteral();
+            if (s3 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c126(s1, s3);
+              s0 = s1;
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      }
+
+      return s0;
+    }
+
+    function peg$parseAutocmdEvent() {
+      var s0, s1;
+
+      s0 = peg$currPos;
+      if (input.substr(peg$currPos, 8) === peg$c127) {
+        s1 = peg$c127;
+        peg$currPos += 8;
+      } else {
+        s1 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c128); }
+      }
+      if (s1 === peg$FAILED) {
+        if (input.substr(peg$currPos, 8) === peg$c129) {
+          s1 = peg$c129;
+          peg$currPos += 8;
+        } else {
+          s1 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c130); }
+        }
+        if (s1 === peg$FAILED) {
+          if (input.substr(peg$currPos, 8) === peg$c131) {
+            s1 = peg$c131;
+            peg$currPos += 8;
+          } else {
+            s1 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c132); }
+          }
+          if (s1 === peg$FAILED) {
+            if (input.substr(peg$currPos, 10) === peg$c133) {
+              s1 = peg$c133;
+              peg$currPos += 10;
+            } else {
+              s1 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c134); }
+            }
+            if (s1 === peg$FAILED) {
+              if (input.substr(peg$currPos, 8) === peg$c135) {
+                s1 = peg$c135;
+                peg$currPos += 8;
+              } else {
+                s1 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$c136); }
+              }
+            }
+          }
+        }
+      }
+      if (s1 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$c137();
+      }
+      s0 = s1;
+
+      return s0;
+    }
+
+    function peg$parseAutocmdEventList() {
+      var s0, s1, s2, s3, s4, s5;
+
+      s0 = peg$currPos;
+      s1 = peg$parseAutocmdEvent();
+      if (s1 !== peg$FAILED) {
+        s2 = [];
+        s3 = peg$currPos;
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s4 = peg$c96;
+          peg$currPos++;
+        } else {
+          s4 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c97); }
+        }
+        if (s4 !== peg$FAILED) {
+          s5 = peg$parseAutocmdEvent();
+          if (s5 !== peg$FAILED) {
+            peg$savedPos = s3;
+            s4 = peg$c124(s1, s5);
+            s3 = s4;
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+        while (s3 !== peg$FAILED) {
+          s2.push(s3);
+          s3 = peg$currPos;
+          if (input.charCodeAt(peg$currPos) === 44) {
+            s4 = peg$c96;
+            peg$currPos++;
+          } else {
+            s4 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c97); }
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseAutocmdEvent();
+            if (s5 !== peg$FAILED) {
+              peg$savedPos = s3;
+              s4 = peg$c124(s1, s5);
+              s3 = s4;
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        }
+        if (s2 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c99(s1, s2);
+          s0 = s1;
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
+    function peg$parseAutocmdStatement() {
+      var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+
+      s0 = peg$currPos;
+      s1 = peg$parseAUTOCMD();
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 !== peg$FAILED) {
+          s3 = peg$currPos;
+          s4 = peg$parseIdentifier();
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parse_();
+            if (s5 !== peg$FAILED) {
+              s6 = peg$currPos;
+              peg$silentFails++;
+              s7 = peg$parseAutocmdEventList();
+              peg$silentFails--;
+              if (s7 !== peg$FAILED) {
+                peg$currPos = s6;
+                s6 = void 0;
+              } else {
+                s6 = peg$FAILED;
+              }
+              if (s6 !== peg$FAILED) {
+                peg$savedPos = s3;
+                s4 = peg$c138(s4);
+                s3 = s4;
+              } else {
+                peg$currPos = s3;
+                s3 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+          if (s3 === peg$FAILED) {
+            s3 = null;
+          }
+          if (s3 !== peg$FAILED) {
+            s4 = peg$parseAutocmdEventList();
+            if (s4 !== peg$FAILED) {
+              s5 = peg$parse_();
+              if (s5 !== peg$FAILED) {
+                s6 = peg$parseStringLiteral();
+                if (s6 === peg$FAILED) {
+                  s6 = peg$parseMapIdentifier();
+                }
+                if (s6 !== peg$FAILED) {
+                  s7 = peg$parse_();
+                  if (s7 !== peg$FAILED) {
+                    s8 = [];
+                    if (peg$c76.test(input.charAt(peg$currPos))) {
+                      s9 = input.charAt(peg$currPos);
+                      peg$currPos++;
+                    } else {
+                      s9 = peg$FAILED;
+                      if (peg$silentFails === 0) { peg$fail(peg$c77); }
+                    }
+                    if (s9 !== peg$FAILED) {
+                      while (s9 !== peg$FAILED) {
+                        s8.push(s9);
+                        if (peg$c76.test(input.charAt(peg$currPos))) {
+                          s9 = input.charAt(peg$currPos);
+                          peg$currPos++;
+                        } else {
+                          s9 = peg$FAILED;
+                          if (peg$silentFails === 0) { peg$fail(peg$c77); }
+                        }
+                      }
+                    } else {
+                      s8 = peg$FAILED;
+                    }
+                    if (s8 !== peg$FAILED) {
+                      peg$savedPos = s0;
+                      s1 = peg$c139(s3, s4, s6, s8);
+                      s0 = s1;
+                    } else {
+                      peg$currPos = s0;
+                      s0 = peg$FAILED;
+                    }
+                  } else {
+                    peg$currPos = s0;
+                    s0 = peg$FAILED;
+                  }
+                } else {
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
+                }
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
+    function peg$parseAugroupStatement() {
+      var s0, s1, s2, s3;
+
+      s0 = peg$currPos;
+      s1 = peg$parseAUGROUP();
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 !== peg$FAILED) {
+          s3 = peg$parseIdentifier();
+          if (s3 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s1 = peg$c140(s3);
+            s0 = s1;
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
+    function peg$parseConditionValue() {
+      var s0, s1;
+
+      s0 = peg$parseStringLiteral();
+      if (s0 === peg$FAILED) {
+        s0 = peg$parseNumberLiteral();
+        if (s0 === peg$FAILED) {
+          s0 = peg$currPos;
+          s1 = peg$parseVariableName();
+          if (s1 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s1 = peg$c141(s1);
+          }
+          s0 = s1;
+          if (s0 === peg$FAILED) {
+            s0 = peg$currPos;
+            s1 = peg$parseIdentifier();
+            if (s1 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c142(s1);
+            }
+            s0 = s1;
+          }
+        }
+      }
+
+      return s0;
+    }
+
+    function peg$parseComparisonOperator() {
+      var s0;
+
+      if (input.substr(peg$currPos, 2) === peg$c143) {
+        s0 = peg$c143;
+        peg$currPos += 2;
+      } else {
+        s0 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c144); }
+      }
+      if (s0 === peg$FAILED) {
+        if (input.substr(peg$currPos, 2) === peg$c145) {
+          s0 = peg$c145;
+          peg$currPos += 2;
+        } else {
+          s0 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c146); }
+        }
+        if (s0 === peg$FAILED) {
+          if (input.substr(peg$currPos, 2) === peg$c147) {
+            s0 = peg$c147;
+            peg$currPos += 2;
+          } else {
+            s0 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c148); }
+          }
+          if (s0 === peg$FAILED) {
+            if (input.substr(peg$currPos, 2) === peg$c149) {
+              s0 = peg$c149;
+              peg$currPos += 2;
+            } else {
+              s0 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c150); }
+            }
+            if (s0 === peg$FAILED) {
+              if (input.substr(peg$currPos, 2) === peg$c151) {
+                s0 = peg$c151;
+                peg$currPos += 2;
+              } else {
+                s0 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$c152); }
+              }
+              if (s0 === peg$FAILED) {
+                if (input.charCodeAt(peg$currPos) === 62) {
+                  s0 = peg$c153;
+                  peg$currPos++;
+                } else {
+                  s0 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c154); }
+                }
+                if (s0 === peg$FAILED) {
+                  if (input.charCodeAt(peg$currPos) === 60) {
+                    s0 = peg$c155;
+                    peg$currPos++;
+                  } else {
+                    s0 = peg$FAILED;
+                    if (peg$silentFails === 0) { peg$fail(peg$c156); }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+
+      return s0;
+    }
+
+    function peg$parseComparison() {
+      var s0, s1, s2, s3, s4, s5;
+
+      s0 = peg$currPos;
+      s1 = peg$parseConditionValue();
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 === peg$FAILED) {
+          s2 = null;
+        }
+        if (s2 !== peg$FAILED) {
+          s3 = peg$parseComparisonOperator();
+          if (s3 !== peg$FAILED) {
+            s4 = peg$parse_();
+            if (s4 === peg$FAILED) {
+              s4 = null;
+            }
+            if (s4 !== peg$FAILED) {
+              s5 = peg$parseConditionValue();
+              if (s5 !== peg$FAILED) {
+                peg$savedPos = s0;
+                s1 = peg$c157(s1, s3, s5);
+                s0 = s1;
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+      if (s0 === peg$FAILED) {
+        s0 = peg$currPos;
+        s1 = peg$parseConditionValue();
+        if (s1 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c158(s1);
+        }
+        s0 = s1;
+      }
+
+      return s0;
+    }
+
+    function peg$parseNotCondition() {
+      var s0, s1, s2, s3, s4, s5;
+
+      s0 = peg$currPos;
+      if (input.charCodeAt(peg$currPos) === 33) {
+        s1 = peg$c159;
+        peg$currPos++;
+      } else {
+        s1 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c160); }
+      }
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 === peg$FAILED) {
+          s2 = null;
+        }
+        if (s2 !== peg$FAILED) {
+          s3 = peg$parseNotCondition();
+          if (s3 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s1 = peg$c161(s3);
+            s0 = s1;
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+      if (s0 === peg$FAILED) {
+        s0 = peg$currPos;
+        if (input.charCodeAt(peg$currPos) === 40) {
+          s1 = peg$c162;
+          peg$currPos++;
+        } else {
+          s1 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c163); }
+        }
+        if (s1 !== peg$FAILED) {
+          s2 = peg$parse_();
+          if (s2 === peg$FAILED) {
+            s2 = null;
+          }
+          if (s2 !== peg$FAILED) {
+            s3 = peg$parseCondition();
+            if (s3 !== peg$FAILED) {
+              s4 = peg$parse_();
+              if (s4 === peg$FAILED) {
+                s4 = null;
+              }
+              if (s4 !== peg$FAILED) {
+                if (input.charCodeAt(peg$currPos) === 41) {
+                  s5 = peg$c164;
+                  peg$currPos++;
+                } else {
+                  s5 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c165); }
+                }
+                if (s5 !== peg$FAILED) {
+                  peg$savedPos = s0;
+                  s1 = peg$c78(s3);
+                  s0 = s1;
+                } else {
+                  peg$currPos = s0;
+                  s0 = peg$FAILED;
+                }
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+        if (s0 === peg$FAILED) {
+          s0 = peg$parseComparison();
+        }
+      }
+
+      return s0;
+    }
+
+    function peg$parseAndCondition() {
+      var s0, s1, s2, s3, s4, s5, s6, s7;
+
+      s0 = peg$currPos;
+      s1 = peg$parseNotCondition();
+      if (s1 !== peg$FAILED) {
+        s2 = [];
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        if (s4 !== peg$FAILED) {
+          if (input.substr(peg$currPos, 2) === peg$c166) {
+            s5 = peg$c166;
+            peg$currPos += 2;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c167); }
+          }
+          if (s5 !== peg$FAILED) {
+            s6 = peg$parse_();
+            if (s6 === peg$FAILED) {
+              s6 = null;
+            }
+            if (s6 !== peg$FAILED) {
+              s7 = peg$parseNotCondition();
+              if (s7 !== peg$FAILED) {
+                peg$savedPos = s3;
+                s4 = peg$c124(s1, s7);
+                s3 = s4;
+              } else {
+                peg$currPos = s3;
+                s3 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+        while (s3 !== peg$FAILED) {
+          s2.push(s3);
+          s3 = peg$currPos;
+          s4 = peg$parse_();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (s4 !== peg$FAILED) {
+            if (input.substr(peg$currPos, 2) === peg$c166) {
+              s5 = peg$c166;
+              peg$currPos += 2;
+            } else {
+              s5 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c167); }
+            }
+            if (s5 !== peg$FAILED) {
+              s6 = peg$parse_();
+              if (s6 === peg$FAILED) {
+                s6 = null;
+              }
+              if (s6 !== peg$FAILED) {
+                s7 = peg$parseNotCondition();
+                if (s7 !== peg$FAILED) {
+                  peg$savedPos = s3;
+                  s4 = peg$c124(s1, s7);
+                  s3 = s4;
+                } else {
+                  peg$currPos = s3;
+                  s3 = peg$FAILED;
+                }
+              } else {
+                peg$currPos = s3;
+                s3 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        }
+        if (s2 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c168(s1, s2);
+          s0 = s1;
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
+    function peg$parseCondition() {
+      var s0, s1, s2, s3, s4, s5, s6, s7;
+
+      s0 = peg$currPos;
+      s1 = peg$parseAndCondition();
+      if (s1 !== peg$FAILED) {
+        s2 = [];
+        s3 = peg$currPos;
+        s4 = peg$parse_();
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        if (s4 !== peg$FAILED) {
+          if (input.substr(peg$currPos, 2) === peg$c169) {
+            s5 = peg$c169;
+            peg$currPos += 2;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c170); }
+          }
+          if (s5 !== peg$FAILED) {
+            s6 = peg$parse_();
+            if (s6 === peg$FAILED) {
+              s6 = null;
+            }
+            if (s6 !== peg$FAILED) {
+              s7 = peg$parseAndCondition();
+              if (s7 !== peg$FAILED) {
+                peg$savedPos = s3;
+                s4 = peg$c124(s1, s7);
+                s3 = s4;
+              } else {
+                peg$currPos = s3;
+                s3 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+        while (s3 !== peg$FAILED) {
+          s2.push(s3);
+          s3 = peg$currPos;
+          s4 = peg$parse_();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (s4 !== peg$FAILED) {
+            if (input.substr(peg$currPos, 2) === peg$c169) {
+              s5 = peg$c169;
+              peg$currPos += 2;
+            } else {
+              s5 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c170); }
+            }
+            if (s5 !== peg$FAILED) {
+              s6 = peg$parse_();
+              if (s6 === peg$FAILED) {
+                s6 = null;
+              }
+              if (s6 !== peg$FAILED) {
+                s7 = peg$parseAndCondition();
+                if (s7 !== peg$FAILED) {
+                  peg$savedPos = s3;
+                  s4 = peg$c124(s1, s7);
+                  s3 = s4;
+                } else {
+                  peg$currPos = s3;
+                  s3 = peg$FAILED;
+                }
+              } else {
+                peg$currPos = s3;
+                s3 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        }
+        if (s2 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c171(s1, s2);
+          s0 = s1;
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
+    function peg$parseIfStart() {
+      var s0, s1, s2, s3;
+
+      s0 = peg$currPos;
+      s1 = peg$parseIF();
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 !== peg$FAILED) {
+          s3 = peg$parseCondition();
+          if (s3 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s1 = peg$c172(s3);
+            s0 = s1;
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
         } else {
           peg$currPos = s0;
           s0 = peg$FAILED;
         }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
       }
 
       return s0;
     }
 
-    function peg$parseSetStatement() {
-      var s0, s1, s2, s3, s4;
+    function peg$parseElseIfStart() {
+      var s0, s1, s2, s3;
 
       s0 = peg$currPos;
-      s1 = peg$parseSET();
+      s1 = peg$parseELSEIF();
       if (s1 !== peg$FAILED) {
         s2 = peg$parse_();
         if (s2 !== peg$FAILED) {
-          if (input.substr(peg$currPos, 2) === peg$c72) {
-            s3 = peg$c72;
-            peg$currPos += 2;
-          } else {
-            s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c73); }
-          }
+          s3 = peg$parseCondition();
           if (s3 !== peg$FAILED) {
-            s4 = peg$parseIdentifier();
-            if (s4 !== peg$FAILED) {
-              peg$savedPos = s0;
-              s1 = peg$c74(s4);
-              s0 = s1;
-            } else {
-              peg$currPos = s0;
-              s0 = peg$FAILED;
-            }
+            peg$savedPos = s0;
+            s1 = peg$c173(s3);
+            s0 = s1;
           } else {
             peg$currPos = s0;
             s0 = peg$FAILED;
@@ -1956,38 +3482,61 @@
         peg$currPos = s0;
         s0 = peg$FAILED;
       }
-      if (s0 === peg$FAILED) {
-        s0 = peg$currPos;
-        s1 = peg$parseSET();
-        if (s1 !== peg$FAILED) {
-          s2 = peg$parse_();
-          if (s2 !== peg$FAILED) {
-            s3 = peg$currPos;
-            peg$silentFails++;
-            if (input.substr(peg$currPos, 2) === peg$c72) {
-              s4 = peg$c72;
-              peg$currPos += 2;
-            } else {
-              s4 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c73); }
-            }
-            peg$silentFails--;
-            if (s4 === peg$FAILED) {
-              s3 = void 0;
-            } else {
-              peg$currPos = s3;
-              s3 = peg$FAILED;
+
+      return s0;
+    }
+
+    function peg$parseElseStart() {
+      var s0, s1;
+
+      s0 = peg$currPos;
+      s1 = peg$parseELSE();
+      if (s1 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$c174();
+      }
+      s0 = s1;
+
+      return s0;
+    }
+
+    function peg$parseConditionalBranch() {
+      var s0, s1, s2, s3, s4, s5;
+
+      s0 = peg$currPos;
+      s1 = [];
+      s2 = peg$parseWhiteSpace();
+      if (s2 === peg$FAILED) {
+        s2 = peg$parseEOL();
+      }
+      while (s2 !== peg$FAILED) {
+        s1.push(s2);
+        s2 = peg$parseWhiteSpace();
+        if (s2 === peg$FAILED) {
+          s2 = peg$parseEOL();
+        }
+      }
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parseElseIfStart();
+        if (s2 === peg$FAILED) {
+          s2 = peg$parseElseStart();
+        }
+        if (s2 !== peg$FAILED) {
+          s3 = peg$parseComment();
+          if (s3 === peg$FAILED) {
+            s3 = null;
+          }
+          if (s3 !== peg$FAILED) {
+            s4 = [];
+            s5 = peg$parseStatement();
+            while (s5 !== peg$FAILED) {
+              s4.push(s5);
+              s5 = peg$parseStatement();
             }
-            if (s3 !== peg$FAILED) {
-              s4 = peg$parseIdentifier();
-              if (s4 !== peg$FAILED) {
-                peg$savedPos = s0;
-                s1 = peg$c75(s4);
-                s0 = s1;
-              } else {
-                peg$currPos = s0;
-                s0 = peg$FAILED;
-              }
+            if (s4 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c175(s2, s4);
+              s0 = s1;
             } else {
               peg$currPos = s0;
               s0 = peg$FAILED;
@@ -2000,65 +3549,57 @@
           peg$currPos = s0;
           s0 = peg$FAILED;
         }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
       }
 
       return s0;
     }
 
-    function peg$parseSiteStatement() {
-      var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+    function peg$parseIfStatement() {
+      var s0, s1, s2, s3, s4, s5, s6;
 
       s0 = peg$currPos;
-      s1 = peg$parseSITE();
+      s1 = peg$parseIfStart();
       if (s1 !== peg$FAILED) {
-        s2 = peg$parse_();
+        s2 = peg$parseComment();
+        if (s2 === peg$FAILED) {
+          s2 = null;
+        }
         if (s2 !== peg$FAILED) {
-          s3 = peg$parseStringLiteral();
+          s3 = [];
+          s4 = peg$parseStatement();
+          while (s4 !== peg$FAILED) {
+            s3.push(s4);
+            s4 = peg$parseStatement();
+          }
           if (s3 !== peg$FAILED) {
-            s4 = peg$parse__();
+            s4 = [];
+            s5 = peg$parseConditionalBranch();
+            while (s5 !== peg$FAILED) {
+              s4.push(s5);
+              s5 = peg$parseConditionalBranch();
+            }
             if (s4 !== peg$FAILED) {
-              if (input.charCodeAt(peg$currPos) === 123) {
-                s5 = peg$c76;
-                peg$currPos++;
-              } else {
-                s5 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c77); }
+              s5 = [];
+              s6 = peg$parseWhiteSpace();
+              if (s6 === peg$FAILED) {
+                s6 = peg$parseEOL();
               }
-              if (s5 !== peg$FAILED) {
-                s6 = [];
-                s7 = peg$parseWhiteSpace();
-                while (s7 !== peg$FAILED) {
-                  s6.push(s7);
-                  s7 = peg$parseWhiteSpace();
+              while (s6 !== peg$FAILED) {
+                s5.push(s6);
+                s6 = peg$parseWhiteSpace();
+                if (s6 === peg$FAILED) {
+                  s6 = peg$parseEOL();
                 }
+              }
+              if (s5 !== peg$FAILED) {
+                s6 = peg$parseENDIF();
                 if (s6 !== peg$FAILED) {
-                  s7 = peg$parseEOL();
-                  if (s7 !== peg$FAILED) {
-                    s8 = peg$parseScope();
-                    if (s8 !== peg$FAILED) {
-                      if (input.charCodeAt(peg$currPos) === 125) {
-                        s9 = peg$c78;
-                        peg$currPos++;
-                      } else {
-                        s9 = peg$FAILED;
-                        if (peg$silentFails === 0) { peg$fail(peg$c79); }
-                      }
-                      if (s9 !== peg$FAILED) {
-                        peg$savedPos = s0;
-                        s1 = peg$c80(s3, s8);
-                        s0 = s1;
-                      } else {
-                        peg$currPos = s0;
-                        s0 = peg$FAILED;
-                      }
-                    } else {
-                      peg$currPos = s0;
-                      s0 = peg$FAILED;
-                    }
-                  } else {
-                    peg$currPos = s0;
-                    s0 = peg$FAILED;
-                  }
+                  peg$savedPos = s0;
+                  s1 = peg$c176(s1, s3, s4);
+                  s0 = s1;
                 } else {
                   peg$currPos = s0;
                   s0 = peg$FAILED;
@@ -2102,7 +3643,7 @@
               s5 = peg$parse__();
               if (s5 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c81(s2, s4);
+                s1 = peg$c177(s2, s4);
                 s0 = s1;
               } else {
                 peg$currPos = s0;
@@ -2133,7 +3674,7 @@
             s3 = peg$parse__();
             if (s3 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c82(s2);
+              s1 = peg$c178(s2);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -2159,6 +3700,12 @@
       s1 = peg$parseUNMAP();
       if (s1 === peg$FAILED) {
         s1 = peg$parseIUNMAP();
+        if (s1 === peg$FAILED) {
+          s1 = peg$parseVUNMAP();
+          if (s1 === peg$FAILED) {
+            s1 = peg$parseCUNMAP();
+          }
+        }
       }
       if (s1 !== peg$FAILED) {
         s2 = peg$parse_();
@@ -2166,7 +3713,7 @@
           s3 = peg$parseUnmapIdentifierList();
           if (s3 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c83(s1, s3);
+            s1 = peg$c179(s1, s3);
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -2191,6 +3738,15 @@
       s1 = peg$parseMAP();
       if (s1 === peg$FAILED) {
         s1 = peg$parseIMAP();
+        if (s1 === peg$FAILED) {
+          s1 = peg$parseVMAP();
+          if (s1 === peg$FAILED) {
+            s1 = peg$parseCMAP();
+            if (s1 === peg$FAILED) {
+              s1 = peg$parseNOREMAP();
+            }
+          }
+        }
       }
       if (s1 !== peg$FAILED) {
         s2 = peg$parse_();
@@ -2200,26 +3756,26 @@
             s4 = peg$parse_();
             if (s4 !== peg$FAILED) {
               s5 = [];
-              if (peg$c36.test(input.charAt(peg$currPos))) {
+              if (peg$c76.test(input.charAt(peg$currPos))) {
                 s6 = input.charAt(peg$currPos);
                 peg$currPos++;
               } else {
                 s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c37); }
+                if (peg$silentFails === 0) { peg$fail(peg$c77); }
               }
               while (s6 !== peg$FAILED) {
                 s5.push(s6);
-                if (peg$c36.test(input.charAt(peg$currPos))) {
+                if (peg$c76.test(input.charAt(peg$currPos))) {
                   s6 = input.charAt(peg$currPos);
                   peg$currPos++;
                 } else {
                   s6 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c37); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c77); }
                 }
               }
               if (s5 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c84(s1, s3, s5);
+                s1 = peg$c180(s1, s3, s5);
                 s0 = s1;
               } else {
                 peg$currPos = s0;
@@ -2254,26 +3810,76 @@
         s2 = peg$parse_();
         if (s2 !== peg$FAILED) {
           s3 = [];
-          if (peg$c36.test(input.charAt(peg$currPos))) {
+          if (peg$c76.test(input.charAt(peg$currPos))) {
             s4 = input.charAt(peg$currPos);
             peg$currPos++;
           } else {
             s4 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c37); }
+            if (peg$silentFails === 0) { peg$fail(peg$c77); }
           }
           while (s4 !== peg$FAILED) {
             s3.push(s4);
-            if (peg$c36.test(input.charAt(peg$currPos))) {
+            if (peg$c76.test(input.charAt(peg$currPos))) {
               s4 = input.charAt(peg$currPos);
               peg$currPos++;
             } else {
               s4 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c37); }
+              if (peg$silentFails === 0) { peg$fail(peg$c77); }
+            }
+          }
+          if (s3 !== peg$FAILED) {
+            peg$savedPos = s0;
+            s1 = peg$c181(s3);
+            s0 = s1;
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+
+      return s0;
+    }
+
+    function peg$parseSourceStatement() {
+      var s0, s1, s2, s3, s4;
+
+      s0 = peg$currPos;
+      s1 = peg$parseSOURCE();
+      if (s1 !== peg$FAILED) {
+        s2 = peg$parse_();
+        if (s2 !== peg$FAILED) {
+          s3 = [];
+          if (peg$c76.test(input.charAt(peg$currPos))) {
+            s4 = input.charAt(peg$currPos);
+            peg$currPos++;
+          } else {
+            s4 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c77); }
+          }
+          if (s4 !== peg$FAILED) {
+            while (s4 !== peg$FAILED) {
+              s3.push(s4);
+              if (peg$c76.test(input.charAt(peg$currPos))) {
+                s4 = input.charAt(peg$currPos);
+                peg$currPos++;
+              } else {
+                s4 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$c77); }
+              }
             }
+          } else {
+            s3 = peg$FAILED;
           }
           if (s3 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c85(s3);
+            s1 = peg$c8();
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -2300,22 +3906,22 @@
         s2 = peg$parse_();
         if (s2 !== peg$FAILED) {
           s3 = [];
-          if (peg$c86.test(input.charAt(peg$currPos))) {
+          if (peg$c182.test(input.charAt(peg$currPos))) {
             s4 = input.charAt(peg$currPos);
             peg$currPos++;
           } else {
             s4 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c87); }
+            if (peg$silentFails === 0) { peg$fail(peg$c183); }
           }
           if (s4 !== peg$FAILED) {
             while (s4 !== peg$FAILED) {
               s3.push(s4);
-              if (peg$c86.test(input.charAt(peg$currPos))) {
+              if (peg$c182.test(input.charAt(peg$currPos))) {
                 s4 = input.charAt(peg$currPos);
                 peg$currPos++;
               } else {
                 s4 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c87); }
+                if (peg$silentFails === 0) { peg$fail(peg$c183); }
               }
             }
           } else {
@@ -2325,22 +3931,22 @@
             s4 = peg$parse_();
             if (s4 !== peg$FAILED) {
               s5 = [];
-              if (peg$c36.test(input.charAt(peg$currPos))) {
+              if (peg$c76.test(input.charAt(peg$currPos))) {
                 s6 = input.charAt(peg$currPos);
                 peg$currPos++;
               } else {
                 s6 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c37); }
+                if (peg$silentFails === 0) { peg$fail(peg$c77); }
               }
               if (s6 !== peg$FAILED) {
                 while (s6 !== peg$FAILED) {
                   s5.push(s6);
-                  if (peg$c36.test(input.charAt(peg$currPos))) {
+                  if (peg$c76.test(input.charAt(peg$currPos))) {
                     s6 = input.charAt(peg$currPos);
                     peg$currPos++;
                   } else {
                     s6 = peg$FAILED;
-                    if (peg$silentFails === 0) { peg$fail(peg$c37); }
+                    if (peg$silentFails === 0) { peg$fail(peg$c77); }
                   }
                 }
               } else {
@@ -2348,7 +3954,7 @@
               }
               if (s5 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c88(s3, s5);
+                s1 = peg$c184(s3, s5);
                 s0 = s1;
               } else {
                 peg$currPos = s0;
@@ -2381,12 +3987,12 @@
       s1 = peg$currPos;
       s2 = peg$currPos;
       peg$silentFails++;
-      if (input.substr(peg$currPos, 2) === peg$c89) {
-        s3 = peg$c89;
+      if (input.substr(peg$currPos, 2) === peg$c185) {
+        s3 = peg$c185;
         peg$currPos += 2;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c90); }
+        if (peg$silentFails === 0) { peg$fail(peg$c186); }
       }
       peg$silentFails--;
       if (s3 === peg$FAILED) {
@@ -2432,11 +4038,11 @@
         s2 = peg$parse__();
         if (s2 !== peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 44) {
-            s3 = peg$c56;
+            s3 = peg$c96;
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c57); }
+            if (peg$silentFails === 0) { peg$fail(peg$c97); }
           }
           if (s3 !== peg$FAILED) {
             s4 = peg$parse__();
@@ -2444,7 +4050,7 @@
               s5 = peg$parseParameters();
               if (s5 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c91(s1, s5);
+                s1 = peg$c187(s1, s5);
                 s0 = s1;
               } else {
                 peg$currPos = s0;
@@ -2471,7 +4077,7 @@
         s1 = peg$parseIdentifier();
         if (s1 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c82(s1);
+          s1 = peg$c178(s1);
         }
         s0 = s1;
       }
@@ -2484,11 +4090,11 @@
 
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 40) {
-        s1 = peg$c92;
+        s1 = peg$c162;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c93); }
+        if (peg$silentFails === 0) { peg$fail(peg$c163); }
       }
       if (s1 !== peg$FAILED) {
         s2 = peg$parse__();
@@ -2501,15 +4107,15 @@
             s4 = peg$parse__();
             if (s4 !== peg$FAILED) {
               if (input.charCodeAt(peg$currPos) === 41) {
-                s5 = peg$c94;
+                s5 = peg$c164;
                 peg$currPos++;
               } else {
                 s5 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c95); }
+                if (peg$silentFails === 0) { peg$fail(peg$c165); }
               }
               if (s5 !== peg$FAILED) {
                 peg$savedPos = s0;
-                s1 = peg$c96(s3);
+                s1 = peg$c188(s3);
                 s0 = s1;
               } else {
                 peg$currPos = s0;
@@ -2539,12 +4145,12 @@
       var s0, s1, s2, s3, s4;
 
       s0 = peg$currPos;
-      if (input.substr(peg$currPos, 2) === peg$c97) {
-        s1 = peg$c97;
+      if (input.substr(peg$currPos, 2) === peg$c189) {
+        s1 = peg$c189;
         peg$currPos += 2;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c98); }
+        if (peg$silentFails === 0) { peg$fail(peg$c190); }
       }
       if (s1 !== peg$FAILED) {
         s2 = [];
@@ -2561,16 +4167,16 @@
             s4 = peg$parseJavaScriptBlockChar();
           }
           if (s3 !== peg$FAILED) {
-            if (input.substr(peg$currPos, 2) === peg$c89) {
-              s4 = peg$c89;
+            if (input.substr(peg$currPos, 2) === peg$c185) {
+              s4 = peg$c185;
               peg$currPos += 2;
             } else {
               s4 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c90); }
+              if (peg$silentFails === 0) { peg$fail(peg$c186); }
             }
             if (s4 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c99(s3);
+              s1 = peg$c191(s3);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -2596,12 +4202,12 @@
       var s0, s1, s2, s3;
 
       s0 = peg$currPos;
-      if (input.substr(peg$currPos, 2) === peg$c100) {
-        s1 = peg$c100;
+      if (input.substr(peg$currPos, 2) === peg$c192) {
+        s1 = peg$c192;
         peg$currPos += 2;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c101); }
+        if (peg$silentFails === 0) { peg$fail(peg$c193); }
       }
       if (s1 !== peg$FAILED) {
         s2 = peg$parse__();
@@ -2609,7 +4215,7 @@
           s3 = peg$parseJavaScriptBlock();
           if (s3 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c102(s3);
+            s1 = peg$c194(s3);
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -2642,12 +4248,12 @@
           if (s3 !== peg$FAILED) {
             s4 = peg$parse__();
             if (s4 !== peg$FAILED) {
-              if (input.substr(peg$currPos, 2) === peg$c100) {
-                s5 = peg$c100;
+              if (input.substr(peg$currPos, 2) === peg$c192) {
+                s5 = peg$c192;
                 peg$currPos += 2;
               } else {
                 s5 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c101); }
+                if (peg$silentFails === 0) { peg$fail(peg$c193); }
               }
               if (s5 !== peg$FAILED) {
                 s6 = peg$parse__();
@@ -2655,7 +4261,7 @@
                   s7 = peg$parseJavaScriptBlock();
                   if (s7 !== peg$FAILED) {
                     peg$savedPos = s0;
-                    s1 = peg$c103(s1, s3, s7);
+                    s1 = peg$c195(s1, s3, s7);
                     s0 = s1;
                   } else {
                     peg$currPos = s0;
@@ -2692,48 +4298,63 @@
     function peg$parseStatementValue() {
       var s0, s1;
 
-      s0 = peg$parseLetStatement();
+      s0 = peg$parseIfStatement();
       if (s0 === peg$FAILED) {
-        s0 = peg$parseJavaScriptBlockDefinition();
+        s0 = peg$parseLetStatement();
         if (s0 === peg$FAILED) {
-          s0 = peg$parseAutoRunJavaScriptBlock();
+          s0 = peg$parseJavaScriptBlockDefinition();
           if (s0 === peg$FAILED) {
-            s0 = peg$parseSetStatement();
+            s0 = peg$parseAutoRunJavaScriptBlock();
             if (s0 === peg$FAILED) {
-              s0 = peg$parseSiteStatement();
+              s0 = peg$parseSetStatement();
               if (s0 === peg$FAILED) {
-                s0 = peg$currPos;
-                if (input.substr(peg$currPos, 8) === peg$c104) {
-                  s1 = peg$c104;
-                  peg$currPos += 8;
-                } else {
-                  s1 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c105); }
-                }
-                if (s1 === peg$FAILED) {
-                  if (input.substr(peg$currPos, 9) === peg$c106) {
-                    s1 = peg$c106;
-                    peg$currPos += 9;
-                  } else {
-                    s1 = peg$FAILED;
-                    if (peg$silentFails === 0) { peg$fail(peg$c107); }
-                  }
-                }
-                if (s1 !== peg$FAILED) {
-                  peg$savedPos = s0;
-                  s1 = peg$c108();
-                }
-                s0 = s1;
+                s0 = peg$parseSiteStatement();
                 if (s0 === peg$FAILED) {
-                  s0 = peg$parseCallStatement();
+                  s0 = peg$parseHintFilterStatement();
                   if (s0 === peg$FAILED) {
-                    s0 = peg$parseCommandStatement();
+                    s0 = peg$parseAutocmdStatement();
                     if (s0 === peg$FAILED) {
-                      s0 = peg$parseMapStatement();
+                      s0 = peg$parseAugroupStatement();
                       if (s0 === peg$FAILED) {
-                        s0 = peg$parseUnmapStatement();
+                        s0 = peg$currPos;
+                        if (input.substr(peg$currPos, 8) === peg$c196) {
+                          s1 = peg$c196;
+                          peg$currPos += 8;
+                        } else {
+                          s1 = peg$FAILED;
+                          if (peg$silentFails === 0) { peg$fail(peg$c197); }
+                        }
+                        if (s1 === peg$FAILED) {
+                          if (input.substr(peg$currPos, 9) === peg$c198) {
+                            s1 = peg$c198;
+                            peg$currPos += 9;
+                          } else {
+                            s1 = peg$FAILED;
+                            if (peg$silentFails === 0) { peg$fail(peg$c199); }
+                          }
+                        }
+                        if (s1 !== peg$FAILED) {
+                          peg$savedPos = s0;
+                          s1 = peg$c200();
+                        }
+                        s0 = s1;
                         if (s0 === peg$FAILED) {
-                          s0 = peg$parseComment();
+                          s0 = peg$parseCallStatement();
+                          if (s0 === peg$FAILED) {
+                            s0 = peg$parseSourceStatement();
+                            if (s0 === peg$FAILED) {
+                              s0 = peg$parseCommandStatement();
+                              if (s0 === peg$FAILED) {
+                                s0 = peg$parseMapStatement();
+                                if (s0 === peg$FAILED) {
+                                  s0 = peg$parseUnmapStatement();
+                                  if (s0 === peg$FAILED) {
+                                    s0 = peg$parseComment();
+                                  }
+                                }
+                              }
+                            }
+                          }
                         }
                       }
                     }
@@ -2786,7 +4407,7 @@
             }
             if (s4 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c38(s2);
+              s1 = peg$c78(s2);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -2828,7 +4449,7 @@
         s2 = peg$parseEOF();
         if (s2 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c109();
+          s1 = peg$c201();
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -2848,7 +4469,7 @@
         }
         if (s1 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c110(s1);
+          s1 = peg$c202(s1);
         }
         s0 = s1;
       }
@@ -2859,6 +4480,51 @@
 
       var scopeIdentifiers = {};
       var autoJsLength = 0;
+      var autocmdGroup = '';
+      // One entry per enclosing if block: whether a branch has been taken and
+      // whether the current branch is the one being kept
+      var conditions = [];
+      var conditionContext = {
+        platform: options.platform || detectPlatform(),
+        chrome: options.chrome || chromeVersion(),
+        profile: options.profile || ''
+      };
+      function detectPlatform() {
+        var agent = typeof navigator === 'undefined' ? '' : navigator.userAgent;
+        if (/CrOS/.test(agent)) return 'chromeos';
+        if (/Mac/.test(agent)) return 'mac';
+        if (/Win/.test(agent)) return 'windows';
+        if (/Linux/.test(agent)) return 'linux';
+        return '';
+      }
+      function chromeVersion() {
+        var agent = typeof navigator === 'undefined' ? '' : navigator.userAgent;
+        var match = agent.match(/Chrome\/(\d+)/);
+        return match ? +match[1] : 0;
+      }
+      function active() {
+        return conditions.every(function(e) { return e.active; });
+      }
+      function compare(a, op, b) {
+        if (op === '=~') return new RegExp(b).test(String(a));
+        if (typeof a === 'number' || typeof b === 'number') {
+          a = +a;
+          b = +b;
+        }
+        switch (op) {
+          case '==': return a === b;
+          case '!=': return a !== b;
+          case '>=': return a >= b;
+          case '<=': return a <= b;
+          case '>': return a > b;
+          case '<': return a < b;
+        }
+      }
+      function flatten(data) {
+        return data.reduce(function(result, e) {
+          return result.concat(Array.isArray(e) ? flatten(e) : [e]);
+        }, []);
+      }
       function merge(a, b) {
         for (var p in b) {
           if (typeof b[p] === 'object' && !Array.isArray(b[p])) {
@@ -2872,12 +4538,25 @@
         }
       }
       function parseScope(data) {
-        var result = {MAPPINGS: []};
-        data.forEach(function(e) {
+        var result = {MAPPINGS: [], MAPPINGORIGINS: []};
+        // Kept if blocks return the statements of their branch
+        flatten(data).forEach(function(e) {
           if (e === null)
             return;
           if (e.MAPPINGS) {
             result.MAPPINGS.push(e.MAPPINGS);
+            // The line of every mapping, for :verbose map
+            result.MAPPINGORIGINS.push(e.LINE);
+          } else if (e.AUTOCMDS) {
+            result.AUTOCMDS = (result.AUTOCMDS || []).concat(e.AUTOCMDS);
+          } else if (e.HINTFILTERS) {
+            var filters = result.HINTFILTERS = result.HINTFILTERS || {};
+            for (var p in e.HINTFILTERS) {
+              if (Array.isArray(e.HINTFILTERS[p]))
+                filters[p] = (filters[p] || []).concat(e.HINTFILTERS[p]);
+              else
+                filters[p] = e.HINTFILTERS[p];
+            }
           } else {
             merge(result, e);
           }
@@ -2888,6 +4567,7 @@
       function objectPlural(key) {
         var replacements = {
           qmark: 's',
+          macro: 's',
           searchengine: 's',
           searchalias: 'es'
         };
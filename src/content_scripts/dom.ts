@@ -13,10 +13,12 @@ interface DOM {
   isTextElement(element: Element | null): boolean;
   onTitleChange(callback: (title: string) => void): void;
   getVisibleBoundingRect(node: Element): DOMRect | null;
+  translateFrameRect(rect: DOMRect, view: Window): void;
   cloneRect(rect: DOMRect): DOMRect;
   getVisibleBoundingAreaRect(node: Element): DOMRect | null;
   isVisible(element: Element): boolean;
   mouseEvent(type: 'hover' | 'unhover' | 'click', element: Element): void;
+  selectedWord(): string;
 }
 
 declare global {
@@ -104,7 +106,10 @@ export const DOM: DOM = {
   },
 
   getVisibleBoundingRect(node: Element): DOMRect | null {
-    const style = getComputedStyle(node, null);
+    // Nodes inside same-origin frames are measured against their own
+    // viewport and then moved into the coordinates of the top one
+    const view = node.ownerDocument.defaultView || window;
+    const style = view.getComputedStyle(node, null);
     if (style.visibility !== 'visible' ||
       style.display === 'none') {
       return null;
@@ -136,10 +141,12 @@ export const DOM: DOM = {
       } else {
         if (r.left + r.width < 5 || r.top + r.height < 5)
           continue;
-        if (window.innerWidth - r.left < 5 || window.innerHeight - r.top < 5)
+        if (view.innerWidth - r.left < 5 || view.innerHeight - r.top < 5)
           continue;
 
         result = this.cloneRect(r);
+        if (view !== window)
+          this.translateFrameRect(result, view);
         break;
       }
     }
@@ -153,6 +160,20 @@ export const DOM: DOM = {
     return result;
   },
 
+  translateFrameRect(rect: DOMRect, view: Window): void {
+    while (view !== window && view.frameElement) {
+      const frame = view.frameElement;
+      const frameRect = frame.getBoundingClientRect();
+      const left = frameRect.left + frame.clientLeft;
+      const top = frameRect.top + frame.clientTop;
+      rect.left += left;
+      rect.right += left;
+      rect.top += top;
+      rect.bottom += top;
+      view = view.parent;
+    }
+  },
+
   cloneRect(rect: DOMRect): DOMRect {
     return {
       left: rect.left,
@@ -171,7 +192,8 @@ export const DOM: DOM = {
     const mapName = map.getAttribute('name');
     if (!mapName)
       return null;
-    const mapImg = document.querySelector(`*[usemap="#${mapName}"]`) as HTMLImageElement;
+    const root = node.getRootNode() as Document | ShadowRoot;
+    const mapImg = root.querySelector(`*[usemap="#${mapName}"]`) as HTMLImageElement;
     if (!mapImg)
       return null;
     const mapImgRect = DOM.getVisibleBoundingRect(mapImg);
@@ -208,12 +230,38 @@ export const DOM: DOM = {
       case 'unhover': events = ['mouseout', 'mouseleave']; break;
       case 'click': events = ['mouseover', 'mousedown', 'mouseup', 'click']; break;
     }
+    // Composed events escape shadow roots so that listeners delegated to
+    // the document still see them
+    const view = element.ownerDocument.defaultView || window;
     events.forEach((eventName) => {
-      const event = document.createEvent('MouseEvents');
-      event.initMouseEvent(eventName, true, true, window, 1, 0, 0, 0, 0, false,
-        false, false, false, 0, null);
-      element.dispatchEvent(event);
+      element.dispatchEvent(new MouseEvent(eventName, {
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+        view: view,
+        detail: 1,
+      }));
     });
+  },
+
+  // The first line of the selected text, or the word the caret is in
+  selectedWord(): string {
+    const selection = document.getSelection();
+    if (!selection || !selection.rangeCount) {
+      return '';
+    }
+    if (selection.type === 'Range') {
+      return selection.toString().trim().split('\n')[0]!.trim();
+    }
+    const node = selection.focusNode;
+    if (!node || node.nodeType !== Node.TEXT_NODE) {
+      return '';
+    }
+    const text = node.textContent || '';
+    const offset = selection.focusOffset;
+    const before = text.slice(0, offset).match(/\w*$/)![0];
+    const after = text.slice(offset).match(/^\w*/)![0];
+    return before + after;
   }
 
 };
@@ -1,5 +1,5 @@
 // Import utility functions from utils.ts for Manifest v3 compatibility
-import { Utils, matchLocation, findFirstOf, getLinkableElements, mapDOM } from './utils';
+import { Utils, matchLocation, findFirstOf, getLinkableElements, mapDOM, matchText, isValidSelector } from './utils';
 // Import messaging functions from messenger module
 import { RUNTIME, PORT } from './messenger';
 
@@ -28,7 +28,7 @@ declare const Clipboard: {
 };
 
 declare const Status: {
-  setMessage(message: string, time: number): void;
+  setMessage(message: string, time: number, type?: string): void;
 };
 
 declare const Mappings: {
@@ -91,7 +91,9 @@ interface HintsInterface {
   multi?: boolean;
   active?: boolean;
   currentString: string;
+  filterString: string;
   linkArr: Array<[HintElement, Element, string?, string?]>;
+  linkFields: string[][];
   linkHints: any[];
   permutations: string[];
   numericMatch?: Element;
@@ -118,6 +120,7 @@ interface HintsInterface {
   siteFilters: { [pattern: string]: SiteFilter };
 
   // Methods
+  loadSiteFilters(sites: { [pattern: string]: any }): void;
   tryGooglePattern(forward: boolean): boolean;
   matchPatterns(pattern: string | RegExp): void;
   hideHints(reset?: boolean, multi?: boolean, useKeyDelay?: boolean): void;
@@ -126,6 +129,7 @@ interface HintsInterface {
   dispatchAction(link: Element, shift?: boolean): boolean | void;
   showLinkInfo(hint: [HintElement, Element]): boolean;
   handleHintFeedback(): void;
+  filterHints(filter: string): boolean;
   handleHint(key: string): void;
   evaluateLink(item: LinkInfo): void;
   createHintFilter(url: string): HintFilter;
@@ -137,10 +141,107 @@ interface HintsInterface {
   create(type?: string, multi?: boolean): void;
 }
 
+// Built-in per-site filters. Filters from site blocks in the cVimrc
+// are merged on top of these by Hints.loadSiteFilters.
+const defaultMatchPatternFilters: { [pattern: string]: MatchPatternFilter } = {
+  '*://*.ebay.com/*': {
+    'next': 'td a.next',
+    'prev': 'td a.prev'
+  },
+  '*://mail.google.com/*': {
+    'next': 'div[role="button"][data-tooltip="Older"]:not([aria-disabled="true"])',
+    'prev': 'div[role="button"][data-tooltip="Newer"]:not([aria-disabled="true"])'
+  },
+  '*://*.reddit.com/*': {
+    'next': 'a[rel$="next"]',
+    'prev': 'a[rel$="prev"]'
+  },
+};
+
+const defaultSiteFilters: { [pattern: string]: SiteFilter } = {
+  '*://*.reddit.com/*': {
+    reject: [
+      'a:not([href])',
+      '*[onclick^=click_thing]',
+    ],
+    accept: [
+      '.grippy'
+    ],
+  },
+  '*://*.google.*/*': {
+    reject: [
+      'li[class$="_dropdownitem"]',
+      'div[class$="_dropdown"]',
+      'div[aria-label="Apps"]',
+      '.hdtbna.notl',
+      '.irc_rit',
+      'a[href^="imgres"]',
+      'div[id=hdtbMenus]',
+      'div[aria-label="Account Information"]',
+      'img[jsaction^="load:"]'
+    ],
+  },
+  '*://github.com/*': {
+    reject: [
+      '.select-menu-modal-holder.js-menu-content'
+    ],
+    accept: [
+      '.js-menu-close',
+    ],
+  },
+  '*://twitter.com/*': {
+    accept: [
+      '.new-tweets-bar.js-new-tweets-bar'
+    ],
+  },
+  '*://imgur.com/*': {
+    accept: [
+      '.thumb-title',
+      '.carousel-button'
+    ],
+  },
+};
+
+// Weights for the link text, aria-label, title and URL when fuzzy filtering
+const FIELD_WEIGHTS = [1, 1, 0.8, 0.5];
+
+const getHintFields = (node: Element): string[] => {
+  const child = node.firstElementChild;
+  const text = (child && child.getAttribute('alt')) ||
+    node.textContent ||
+    (node as HTMLInputElement).value ||
+    (node as HTMLImageElement).alt || '';
+  return [
+    text.trim(),
+    node.getAttribute('aria-label') || '',
+    node.getAttribute('title') || '',
+    (node as HTMLAnchorElement).href || (node as HTMLImageElement).src || '',
+  ].map((e) => e.toLowerCase());
+};
+
+const scoreHint = (filter: string, fields: string[]): number | null => {
+  let total = 0;
+  const words = filter.split(' ').filter((e) => e.length);
+  for (let i = 0; i < words.length; i++) {
+    let best: number | null = null;
+    for (let j = 0; j < fields.length; j++) {
+      const match = matchText(words[i]!, fields[j]!, 'fuzzy');
+      if (match !== null && (best === null || match.score * FIELD_WEIGHTS[j]! > best))
+        best = match.score * FIELD_WEIGHTS[j]!;
+    }
+    if (best === null)
+      return null;
+    total += best;
+  }
+  return total;
+};
+
 export const Hints: HintsInterface = {
   // Initialize properties
   currentString: '',
+  filterString: '',
   linkArr: [],
+  linkFields: [],
   linkHints: [],
   permutations: [],
   shouldShowLinkInfo: false,
@@ -154,63 +255,48 @@ export const Hints: HintsInterface = {
   INPUT_LINK: 8,
 
   // Site-specific pattern filters
-  matchPatternFilters: {
-    '*://*.ebay.com/*': {
-      'next': 'td a.next',
-      'prev': 'td a.prev'
-    },
-    '*://mail.google.com/*': {
-      'next': 'div[role="button"][data-tooltip="Older"]:not([aria-disabled="true"])',
-      'prev': 'div[role="button"][data-tooltip="Newer"]:not([aria-disabled="true"])'
-    },
-    '*://*.reddit.com/*': {
-      'next': 'a[rel$="next"]',
-      'prev': 'a[rel$="prev"]'
-    },
-  },
-
-  siteFilters: {
-    '*://*.reddit.com/*': {
-      reject: [
-        'a:not([href])',
-        '*[onclick^=click_thing]',
-      ],
-      accept: [
-        '.grippy'
-      ],
-    },
-    '*://*.google.*/*': {
-      reject: [
-        'li[class$="_dropdownitem"]',
-        'div[class$="_dropdown"]',
-        'div[aria-label="Apps"]',
-        '.hdtbna.notl',
-        '.irc_rit',
-        'a[href^="imgres"]',
-        'div[id=hdtbMenus]',
-        'div[aria-label="Account Information"]',
-        'img[jsaction^="load:"]'
-      ],
-    },
-    '*://github.com/*': {
-      reject: [
-        '.select-menu-modal-holder.js-menu-content'
-      ],
-      accept: [
-        '.js-menu-close',
-      ],
-    },
-    '*://twitter.com/*': {
-      accept: [
-        '.new-tweets-bar.js-new-tweets-bar'
-      ],
-    },
-    '*://imgur.com/*': {
-      accept: [
-        '.thumb-title',
-        '.carousel-button'
-      ],
-    },
+  matchPatternFilters: defaultMatchPatternFilters,
+  siteFilters: defaultSiteFilters,
+
+  loadSiteFilters(sites: { [pattern: string]: any }): void {
+    this.matchPatternFilters = Object.assign({}, defaultMatchPatternFilters);
+    this.siteFilters = {};
+    Object.keys(defaultSiteFilters).forEach((pattern) => {
+      this.siteFilters[pattern] = Object.assign({}, defaultSiteFilters[pattern]);
+    });
+    Object.keys(sites || {}).forEach((pattern) => {
+      const siteFilters = sites[pattern].HINTFILTERS;
+      if (!siteFilters)
+        return;
+      // One invalid selector would make querySelectorAll throw for every
+      // hint or ]] on the site, so those are dropped
+      const valid = (selector: string): boolean => {
+        if (isValidSelector(selector))
+          return true;
+        if (matchLocation(document.URL, pattern))
+          Status.setMessage('invalid selector for ' + pattern + ': ' + selector, 2, 'error');
+        return false;
+      };
+      const filters = {
+        accept: siteFilters.accept && siteFilters.accept.filter(valid),
+        reject: siteFilters.reject && siteFilters.reject.filter(valid),
+        next: siteFilters.next && valid(siteFilters.next) ? siteFilters.next : '',
+        prev: siteFilters.prev && valid(siteFilters.prev) ? siteFilters.prev : '',
+      };
+      if (filters.accept || filters.reject) {
+        const siteFilter = this.siteFilters[pattern] || {};
+        siteFilter.accept = (siteFilter.accept || []).concat(filters.accept || []);
+        siteFilter.reject = (siteFilter.reject || []).concat(filters.reject || []);
+        this.siteFilters[pattern] = siteFilter;
+      }
+      if (filters.next || filters.prev) {
+        const patternFilter = this.matchPatternFilters[pattern];
+        this.matchPatternFilters[pattern] = {
+          next: filters.next || (patternFilter ? patternFilter.next : ''),
+          prev: filters.prev || (patternFilter ? patternFilter.prev : ''),
+        };
+      }
+    });
   },
 
   tryGooglePattern(forward: boolean): boolean {
@@ -283,11 +369,12 @@ export const Hints: HintsInterface = {
     this.shouldShowLinkInfo = false;
     this.active = reset;
     this.currentString = '';
+    this.filterString = '';
     this.linkArr = [];
+    this.linkFields = [];
     this.linkHints = [];
     this.permutations = [];
-    if (useKeyDelay && !this.active &&
-      settings.numerichints && settings.typelinkhints) {
+    if (useKeyDelay && !this.active && settings.typelinkhints) {
       this.keyDelay = true;
       window.setTimeout(() => {
         this.keyDelay = false;
@@ -313,7 +400,7 @@ export const Hints: HintsInterface = {
     const node = link.localName;
     this.lastClicked = link;
 
-    if (settings.numerichints && settings.typelinkhints) {
+    if (settings.typelinkhints) {
       this.keyDelay = true;
       window.setTimeout(() => {
         this.keyDelay = false;
@@ -573,6 +660,42 @@ export const Hints: HintsInterface = {
     }
   },
 
+  filterHints(filter: string): boolean {
+    const matches: [number, number][] = [];
+    for (let i = 0; i < this.linkArr.length; i++) {
+      const score = scoreHint(filter, this.linkFields[i]!);
+      if (score !== null)
+        matches.push([i, score]);
+    }
+    if (matches.length === 0)
+      return false;
+    this.filterString = filter;
+
+    // Relabel the remaining links so that the best match gets the
+    // shortest hint
+    matches.sort((a, b) => b[1] - a[1]);
+    const labels = this.genHints(matches.length);
+    this.permutations = this.linkArr.map(() => '');
+    this.linkArr.forEach((item) => {
+      item[0].style.opacity = '0';
+      item[0].classList.remove('cVim-link-hint_best');
+    });
+    matches.forEach((match, i) => {
+      const hint = this.linkArr[match[0]]![0];
+      this.permutations[match[0]] = labels[i]!;
+      hint.textContent = labels[i]!;
+      hint.style.opacity = '';
+    });
+    this.linkArr[matches[0]![0]]![0].classList.add('cVim-link-hint_best');
+    this.numericMatch = this.linkArr[matches[0]![0]]![1];
+
+    if (matches.length === 1) {
+      this.dispatchAction(this.numericMatch);
+      this.hideHints(false);
+    }
+    return true;
+  },
+
   handleHint(key: string): void {
     key = key.replace('<Space>', ' ');
     switch (key) {
@@ -584,6 +707,42 @@ export const Hints: HintsInterface = {
         this.shouldShowLinkInfo = !this.shouldShowLinkInfo;
         return;
     }
+    if (settings.typelinkhints && !settings.numerichints) {
+      if (key === '<Enter>') {
+        if (this.numericMatch) {
+          this.dispatchAction(this.numericMatch);
+        } else {
+          this.hideHints(false);
+        }
+        return;
+      }
+      if (key === '<BS>') {
+        if (this.currentString) {
+          // Typed hint characters are cut from the labels, so redraw them
+          // before matching the shorter string
+          const current = this.currentString.slice(0, -1);
+          this.currentString = '';
+          this.filterHints(this.filterString);
+          this.currentString = current;
+          if (current) this.handleHintFeedback();
+        } else if (this.filterString) {
+          this.filterHints(this.filterString.slice(0, -1));
+        }
+        return;
+      }
+      // A lowercase key that continues the label of a shown hint is a hint
+      // character. Any other character, uppercase included, narrows the
+      // links by their text.
+      if (key.length === 1 && !this.currentString) {
+        const isLabel = key === key.toLowerCase() && this.permutations.some((e) => {
+          return e.indexOf(key) === 0;
+        });
+        if (!isLabel) {
+          this.filterHints(this.filterString + key.toLowerCase());
+          return;
+        }
+      }
+    }
     if (settings.numerichints && key === '<Enter>') {
       if (this.numericMatch) {
         this.dispatchAction(this.numericMatch);
@@ -633,6 +792,8 @@ export const Hints: HintsInterface = {
       }
     } else {
       this.linkArr.push([hint, node]);
+      if (settings.typelinkhints)
+        this.linkFields.push(getHintFields(node));
     }
   },
 
@@ -20,10 +20,8 @@ declare const Hints: {
 declare const Visual: {
   visualModeActive: boolean;
   caretModeActive: boolean;
-  lineMode: boolean;
   selection: Selection | null;
-  exit(): void;
-  collapse(): void;
+  escape(): void;
   action(key: string): void;
 };
 
@@ -40,10 +38,14 @@ declare const Mappings: {
     previousCompletionResult(): void;
   };
   convertToAction(key: string): boolean;
+  recordKey(key: string): boolean;
   insertCommand(key: string, callback: () => void): void;
   validMatch: boolean;
   shouldPrevent(key: string): boolean;
   defaults: { [key: string]: string[] };
+  insertFunctions: { [name: string]: (element?: HTMLElement) => void };
+  mapKeys(mode: 'visual' | 'command', key: string): string[];
+  clearQueue(): void;
 };
 
 declare const DOM: {
@@ -56,8 +58,9 @@ declare const Cursor: {
   wiggleWindow(): void;
 };
 
-declare const HUD: {
-  setMessage(message: string): void;
+declare const CheatSheet: {
+  active: boolean;
+  hide(): void;
 };
 
 // mappingTrie instance
@@ -708,6 +711,8 @@ if (HAS_EVENT_KEY_SUPPORT) {
 interface KeyHandlerType {
   down(key: string, event: KeyboardEvent): boolean | void;
   up(key: string, event: KeyboardEvent): boolean | void;
+  commandBarKey(key: string, event: KeyboardEvent): boolean;
+  typeCommandBarKeys(keys: string[], event: KeyboardEvent): void;
   shiftKey?: boolean;
   hasPressedKey?: boolean;
   listener?: KeyListener;
@@ -771,23 +776,39 @@ export const KeyHandler: KeyHandlerType = {
 
     const escapeKey = key === '<Esc>' || key === '<C-[>';
 
+    // Keys typed while the cheat sheet is open go to its search field
+    if (CheatSheet.active) {
+      if (escapeKey) {
+        event.preventDefault();
+        CheatSheet.hide();
+      }
+      return;
+    }
+
+    // Keys typed in the command-line window edit its lines. <Enter> runs
+    // the line under the caret and <Esc> goes back to the command bar.
+    if (Command.commandWindow) {
+      if (escapeKey) {
+        event.preventDefault();
+        Command.closeCommandWindow(false);
+      } else if (key === '<Enter>' || key === '<C-Enter>') {
+        event.preventDefault();
+        Command.closeCommandWindow(true);
+        KeyHandler.commandBarKey(key, event);
+      }
+      return;
+    }
+
     if (Visual.caretModeActive || Visual.visualModeActive) {
       event.stopImmediatePropagation();
       Visual.selection = document.getSelection();
       if (event.which === 8)
         event.preventDefault();
       if (escapeKey) {
-        Visual.lineMode = false;
-        if (Visual.visualModeActive === false) {
-          Visual.exit();
-          insertMode = false;
-          return;
-        }
-        HUD.setMessage(' -- CARET -- ');
-        Visual.collapse();
+        Visual.escape();
         return;
       }
-      Visual.action(key.replace(/^<BS>$/, 'h').replace(/^<Space>$/, 'l'));
+      Visual.action(key);
       return;
     }
 
@@ -826,6 +847,11 @@ export const KeyHandler: KeyHandlerType = {
         event.preventDefault();
         event.stopImmediatePropagation();
       }
+      if (Mappings.recordKey(key)) {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        return;
+      }
       if (Mappings.convertToAction(key)) {
         event.preventDefault();
         event.stopImmediatePropagation();
@@ -839,102 +865,14 @@ export const KeyHandler: KeyHandlerType = {
       window.setTimeout(function() {
         Command.lastInputValue = Command.input!.value;
       }, 0);
-      switch (key) {
-        case '<Tab>':
-        case '<S-Tab>':
-          if (Command.type === 'action') {
-            event.preventDefault();
-            (Mappings.actions as any)[(key === '<Tab>' ? 'next' : 'previous') +
-              'CompletionResult']();
-          }
-          break;
-        case '<C-p>':
-          if (Command.type === 'action' && settings.cncpcompletion) {
-            event.preventDefault();
-            (Mappings.actions as any).previousCompletionResult();
-          }
-          return;
-        case '<Up>':
-        case '<Down>':
-          event.preventDefault();
-          Command.history.cycle(Command.type, (key === '<Up>'));
-          break;
-        case '<Enter>':
-        case '<C-Enter>':
-          event.preventDefault();
-          (document.activeElement as HTMLElement)?.blur();
-          if (!(Command.history[Command.type].length > 0 &&
-            Command.history[Command.type].slice(-1)[0] ===
-            Command.input!.value)) {
-            Command.history[Command.type].push(Command.input!.value);
-            RUNTIME('appendHistory', {
-              value: Command.input!.value,
-              type: Command.type
-            });
-          }
-          if (Command.type === 'action') {
-            const inputValue = Command.input!.value + (event.ctrlKey ? '&!' : '');
-            Command.hide(function() {
-              setTimeout(function() {
-                Command.execute(inputValue, 1);
-              }, 10);
-            });
-            break;
-          }
-          if (Command.input!.value) {
-            PORT('callFind', {
-              command: 'clear',
-              params: []
-            });
-            PORT('callFind', {
-              command: 'highlight',
-              params: [{
-                base: null,
-                mode: Command.modeIdentifier!.textContent,
-                search: Command.input!.value,
-                setIndex: true,
-                executeSearch: false,
-                saveSearch: true
-              }]
-            });
-            PORT('callFind', {
-              command: 'setIndex',
-              params: []
-            });
-            PORT('callFind', {
-              command: 'search',
-              params: [Command.modeIdentifier!.textContent, +(Command.modeIdentifier!.textContent === '?'), false]
-            });
-            PORT('updateLastSearch', { value: Command.input!.value });
-          }
-          Command.hide();
-          break;
-        default:
-          if (key === '<BS>' && Command.lastInputValue.length === 0 &&
-            Command.input!.value.length === 0) {
-            event.preventDefault();
-            setTimeout(function() {
-              Command.hide();
-            }, 10);
-            break;
-          }
-          setTimeout(function() {
-            Command.history.reset = true;
-            if (Command.type === 'action') {
-              Command.complete(Command.input!.value);
-              return;
-            }
-            if (Command.input!.value.length > 2) {
-              if (settings.incsearch) {
-                PORT('doIncSearch', {
-                  search: Command.input!.value,
-                  mode: Command.modeIdentifier!.textContent,
-                });
-              }
-            }
-          }, 0);
-          break;
+      const keys = Mappings.mapKeys('command', key);
+      if (keys.length !== 1 || keys[0] !== key) {
+        event.preventDefault();
+        KeyHandler.typeCommandBarKeys(keys, event);
+        return;
       }
+      if (KeyHandler.commandBarKey(key, event))
+        return;
     }
     if (settings && settings.insertmappings && isInput) {
       Mappings.insertCommand(key, function() {
@@ -948,6 +886,144 @@ export const KeyHandler: KeyHandlerType = {
       });
     }
   },
+  // Handles a key typed in the command bar. Returns true when the key is
+  // used up and must not be checked against the insert mappings.
+  commandBarKey: function(key: string, event: KeyboardEvent): boolean {
+    switch (key) {
+      case '<Tab>':
+      case '<S-Tab>':
+        if (Command.type === 'action') {
+          event.preventDefault();
+          (Mappings.actions as any)[(key === '<Tab>' ? 'next' : 'previous') +
+            'CompletionResult']();
+        }
+        break;
+      case '<C-s>':
+        if (Command.type === 'action' && /^tabs(\s|$)/.test(Command.input!.value)) {
+          event.preventDefault();
+          Command.toggleTabMark();
+          return true;
+        }
+        break;
+      case '<C-p>':
+        if (Command.type === 'action' && settings.cncpcompletion) {
+          event.preventDefault();
+          (Mappings.actions as any).previousCompletionResult();
+        }
+        return true;
+      case '<Up>':
+      case '<Down>':
+        event.preventDefault();
+        Command.history.cycle(Command.type, (key === '<Up>'));
+        break;
+      case '<Enter>':
+      case '<C-Enter>':
+        event.preventDefault();
+        (document.activeElement as HTMLElement)?.blur();
+        if (!(Command.history[Command.type].length > 0 &&
+          Command.history[Command.type].slice(-1)[0] ===
+          Command.input!.value)) {
+          Command.history[Command.type].push(Command.input!.value);
+          RUNTIME('appendHistory', {
+            value: Command.input!.value,
+            type: Command.type
+          });
+        }
+        if (Command.type === 'action') {
+          const inputValue = Command.input!.value + (event.ctrlKey ? '&!' : '');
+          // hide() drops the tabs marked in :tabs, which the command typed
+          // still applies to
+          const markedTabs = Command.markedTabs;
+          Command.hide(function() {
+            setTimeout(function() {
+              Command.markedTabs = markedTabs;
+              Command.execute(inputValue, 1);
+              Command.markedTabs = [];
+            }, 10);
+          });
+          break;
+        }
+        if (Command.input!.value) {
+          PORT('callFind', {
+            command: 'clear',
+            params: []
+          });
+          PORT('callFind', {
+            command: 'highlight',
+            params: [{
+              base: null,
+              mode: Command.modeIdentifier!.textContent,
+              search: Command.input!.value,
+              setIndex: true,
+              executeSearch: false,
+              saveSearch: true
+            }]
+          });
+          PORT('callFind', {
+            command: 'setIndex',
+            params: []
+          });
+          PORT('callFind', {
+            command: 'search',
+            params: [Command.modeIdentifier!.textContent, +(Command.modeIdentifier!.textContent === '?'), false]
+          });
+          PORT('updateLastSearch', { value: Command.input!.value });
+        }
+        Command.hide();
+        break;
+      default:
+        if (key === '<BS>' && Command.lastInputValue.length === 0 &&
+          Command.input!.value.length === 0) {
+          event.preventDefault();
+          setTimeout(function() {
+            Command.hide();
+          }, 10);
+          break;
+        }
+        setTimeout(function() {
+          Command.history.reset = true;
+          if (Command.type === 'action') {
+            Command.complete(Command.input!.value);
+            return;
+          }
+          if (Command.input!.value.length > 2) {
+            if (settings.incsearch) {
+              PORT('doIncSearch', {
+                search: Command.input!.value,
+                mode: Command.modeIdentifier!.textContent,
+              });
+            }
+          }
+        }, 0);
+        break;
+    }
+    return false;
+  },
+  // Types the keys a cmap mapping was translated to into the command bar
+  typeCommandBarKeys: function(keys: string[], event: KeyboardEvent): void {
+    const input = Command.input!;
+    keys.forEach(function(key) {
+      if (key === '<Esc>' || key === '<C-[>') {
+        Mappings.handleEscapeKey();
+      } else if (Mappings.insertFunctions.hasOwnProperty(key)) {
+        Mappings.insertFunctions.__setElement__!(input);
+        Mappings.insertFunctions[key]!();
+      } else if (key === '<BS>') {
+        if (input.selectionStart === input.selectionEnd && input.selectionStart) {
+          input.setSelectionRange(input.selectionStart - 1, input.selectionEnd);
+        }
+        input.setRangeText('', input.selectionStart!, input.selectionEnd!, 'end');
+      } else if (key !== '<Space>' && /^<.+>$/.test(key)) {
+        KeyHandler.commandBarKey(key, event);
+      } else {
+        input.setRangeText(key === '<Space>' ? ' ' : key,
+          input.selectionStart!, input.selectionEnd!, 'end');
+      }
+    });
+    if (keys.length && Command.commandBarFocused() && Command.type === 'action') {
+      Command.complete(input.value);
+    }
+  },
   up: function(_key: string, event: KeyboardEvent): boolean | void {
     if (Command.commandBarFocused() ||
       (!insertMode && Mappings.queue.length && Mappings.validMatch)) {
@@ -1,9 +1,16 @@
-import { Trie } from './utils.js';
+import { Trie, TrieNode } from './utils.js';
 
 declare let insertMode: boolean;
 declare let commandMode: boolean;
 declare let settings: any;
 
+// Shadows the Clipboard interface of the DOM library
+declare const Clipboard: {
+  register: string;
+  copy(text: string, store?: boolean): void;
+  paste(tabbed: boolean): void;
+};
+
 declare global {
   interface Window {
     resetScrollFocus(): void;
@@ -22,6 +29,7 @@ declare global {
     exit(): void;
     action(key: string): void;
     collapse(): void;
+    bindings: [string, string][];
   };
 
   const Hints: {
@@ -95,6 +103,12 @@ declare global {
     lastInputValue: string;
     hideData(): void;
     addSettingBlock(settings: any): void;
+    toggleTabMark(): void;
+    markedTabs: number[];
+    openCommandWindow(): void;
+    closeCommandWindow(run: boolean): void;
+    commandWindow: HTMLTextAreaElement | null;
+    bindings: [string, string][];
   };
 
   const DOM: any;
@@ -113,6 +127,15 @@ declare global {
 
   const mappingTrie: any;
 
+  const CheatSheet: {
+    show(): void;
+  };
+
+  const WhichKey: {
+    update(node: TrieNode, prefix: string): void;
+    hide(): void;
+  };
+
   const Mappings: {
     keyPassesLeft: number;
     handleEscapeKey(): void;
@@ -133,8 +156,39 @@ declare global {
 
 const insertMappings = new Trie();
 const mappingTrie = new Trie();
+const visualMappings = new Trie();
+const commandMappings = new Trie();
 let currentTrieNode = mappingTrie;
 
+// The keys of a visual mode or command bar mapping typed so far
+const pendingKeys: { [mode: string]: string[] } = { visual: [], command: [] };
+
+// State for a `"{register}` prefix typed before a yank/paste mapping
+let awaitingRegister = false;
+let pendingRegister = '';
+
+export type MappingMode = 'normal' | 'insert' | 'visual' | 'command';
+
+// The file ('' for the cVimrc of the options page), line and site block of
+// the statement a mapping was read from, null for the command bar
+export type MappingOrigin = [string, number, string?] | null;
+
+// A mapping listed by :map, with where it was last set and the shorter
+// mapping that fires before it can be typed, if any
+export interface MappingListing {
+  keys: string;
+  target: string;
+  noremap: boolean;
+  origin: string;
+  shadowedBy: string;
+}
+
+// Where the mapping ending at a trie node was last set, for :verbose map
+const mappingOrigins = new WeakMap<TrieNode, string>();
+
+// Mappings set with noremap, whose target keys keep their default meaning
+const noremapNodes = new WeakSet<TrieNode>();
+
 interface LastCommand {
   fn: string;
   queue: string;
@@ -149,21 +203,36 @@ interface MappingsType {
   lastCommand: LastCommand;
   defaults: string[][];
   defaultsClone: string[][];
+  descriptions: { [target: string]: string };
+  insertDescriptions: { [target: string]: string };
+  categories: [string, string[]][];
   actions: MappingsActions;
   insertDefaults: string[][];
+  commandDefaults: string[][];
   insertFunctions: InsertFunctions;
   nonRepeatableCommands: string[];
   validMatch: boolean;
   keyPassesLeft: number;
+  recordingMacro: string;
+  recordedKeys: string;
+  lastMacro: string;
   insertCommand(modifier: string, callback: (result?: boolean) => void): void;
   splitMapping(string: string): string[];
-  parseLine(line: string): void;
-  parseCustom(config: string, updateSiteMappings?: boolean): void;
+  listMappings(node?: TrieNode): [string, string][];
+  trie(mode: MappingMode): TrieNode;
+  describeOrigin(origin: MappingOrigin | undefined): string;
+  shadowed(mode: MappingMode, keys: string): string[];
+  listBindings(mode: MappingMode, prefix: string): MappingListing[];
+  defaultMapping(mode: MappingMode, keys: string): string | null;
+  mapKeys(mode: 'visual' | 'command', key: string): string[];
+  parseLine(line: string, origin?: string): void;
+  parseCustom(config: string, updateSiteMappings?: boolean, origins?: MappingOrigin[]): void;
   executeSequence(c: string, r?: string): void;
   handleEscapeKey(): void;
   clearQueue(): void;
   shouldPrevent(key: string): boolean;
   convertToAction(key: string): boolean;
+  recordKey(key: string): boolean;
 }
 
 interface MappingsActions {
@@ -256,6 +325,8 @@ interface MappingsActions {
   previousSearchResult(repeats: number): void;
   nextTab(r: number): void;
   previousTab(r: number): void;
+  nextTabGroup(r: number): void;
+  previousTabGroup(r: number): void;
   goBack(repeats: number): void;
   goForward(repeats: number): void;
   _switchDomain(direction: number, repeats: number): void;
@@ -268,6 +339,8 @@ interface MappingsActions {
   openSearchBarReverse(): void;
   openLinkSearchBar(): void;
   openCommandBar(): void;
+  openCommandPalette(repeats: number): void;
+  showCheatSheet(): void;
   repeatCommand(repeats: number): void;
   createBookmark(): void;
   quitChrome(): void;
@@ -275,6 +348,8 @@ interface MappingsActions {
   resetScrollFocus(): void;
   clearSearchHighlight(): void;
   muteTab(): void;
+  recordMacro(): void;
+  playMacro(repeats: number): void;
   incrementURLPath(repeats: number): void;
   decrementURLPath(repeats: number): void;
   inputFocused: boolean;
@@ -301,6 +376,10 @@ interface InsertFunctions {
   forwardLine(): void;
   backwardLine(): void;
   selectAll(): void;
+  insertPageWord(): void;
+  insertUrl(): void;
+  insertClipboard(): void;
+  openCommandWindow(): void;
 }
 
 export const Mappings: MappingsType = {
@@ -316,9 +395,16 @@ export const Mappings: MappingsType = {
   validMatch: false,
   defaults: [],
   defaultsClone: [],
-  nonRepeatableCommands: [],
+  descriptions: {},
+  insertDescriptions: {},
+  categories: [],
+  nonRepeatableCommands: ['recordMacro'],
+  recordingMacro: '',
+  recordedKeys: '',
+  lastMacro: '',
   actions: {} as MappingsActions,
   insertDefaults: [],
+  commandDefaults: [],
   insertFunctions: {} as InsertFunctions,
   insertCommand: function(modifier: string, callback: (result?: boolean) => void) {
     const value = insertMappings.findValue(this.splitMapping(modifier));
@@ -345,7 +431,132 @@ export const Mappings: MappingsType = {
     }
     return split;
   },
-  parseLine: function(line: string) {
+  // Every mapping below node, the root of the normal mode mappings by
+  // default, as [keys, target] pairs. A `*` key matches any key.
+  listMappings: function(node: TrieNode = mappingTrie): [string, string][] {
+    const mappings: [string, string][] = [];
+    const walk = (parent: TrieNode, keys: string) => {
+      for (const key in parent.children) {
+        const child = parent.children[key]!;
+        const name = keys + (key === '*' ? '<*>' : key);
+        if (child.value !== null) {
+          mappings.push([name, child.value]);
+        }
+        walk(child, name);
+      }
+    };
+    walk(node, '');
+    return mappings;
+  },
+  // The root of the mappings of a mode
+  trie: function(mode: MappingMode): TrieNode {
+    switch (mode) {
+      case 'insert':
+        return insertMappings;
+      case 'visual':
+        return visualMappings;
+      case 'command':
+        return commandMappings;
+    }
+    return mappingTrie;
+  },
+  // The target of the default mapping of keys, which noremap targets
+  // resolve to. Visual mode and the command bar handle their keys
+  // themselves.
+  defaultMapping: function(mode: MappingMode, keys: string): string | null {
+    const defaults = mode === 'normal' ? this.defaults :
+      mode === 'insert' ? this.insertDefaults :
+      mode === 'command' ? this.commandDefaults : [];
+    const mapping = defaults.find((e) => e[0] === keys);
+    return mapping ? mapping[1]! : null;
+  },
+  // Translates a key typed in visual mode or the command bar through the
+  // vmap or cmap mappings. Returns the keys to handle in its place: none
+  // while the keys typed may still complete a mapping, and the typed keys
+  // themselves when they do not. Insert functions are returned whole.
+  mapKeys: function(mode: 'visual' | 'command', key: string): string[] {
+    const keys = pendingKeys[mode]!.concat(key);
+    const trie = this.trie(mode);
+    const node = trie.find(keys);
+    pendingKeys[mode] = [];
+    if (node === null) {
+      return keys;
+    }
+    if (node.value === null) {
+      pendingKeys[mode] = keys;
+      return [];
+    }
+    // Targets are mapped again unless they were set with noremap
+    let target: string = node.value;
+    const targets = [target];
+    let next = noremapNodes.has(node) ? null : trie.find(this.splitMapping(target));
+    while (next !== null && next.value !== null) {
+      if (targets.indexOf(next.value) !== -1) {
+        Status.setMessage('recursive mapping detected', undefined, 'error');
+        return [];
+      }
+      target = next.value;
+      targets.push(target);
+      next = noremapNodes.has(next) ? null : trie.find(this.splitMapping(target));
+    }
+    return this.insertFunctions.hasOwnProperty(target) ? [target] :
+      this.splitMapping(target);
+  },
+  // Names where a mapping statement came from. Settings saved before
+  // origins were recorded have none, or line 0.
+  describeOrigin: function(origin: MappingOrigin | undefined): string {
+    if (origin === undefined) {
+      return 'cVimrc';
+    }
+    if (origin === null) {
+      return 'command bar';
+    }
+    return (origin[0] || 'cVimrc') + (origin[1] ? ' line ' + origin[1] : '') +
+      (origin[2] ? ' (site ' + origin[2] + ')' : '');
+  },
+  // The longer mappings that can no longer be typed because keys fires
+  // before them
+  shadowed: function(mode: MappingMode, keys: string): string[] {
+    keys = keys.replace(/<leader>/ig, settings.mapleader);
+    const node = this.trie(mode).find(this.splitMapping(keys));
+    if (node === null || node.value === null) {
+      return [];
+    }
+    return this.listMappings(node).map((e) => keys + e[0]);
+  },
+  // The mappings of a mode whose keys start with prefix, sorted by keys.
+  // Visual mode and the command bar list their built-in keys after them.
+  listBindings: function(mode: MappingMode, prefix: string): MappingListing[] {
+    prefix = prefix.replace(/<leader>/ig, settings.mapleader);
+    const listing: MappingListing[] = [];
+    const walk = (parent: TrieNode, keys: string, shadowedBy: string) => {
+      for (const key in parent.children) {
+        const child = parent.children[key]!;
+        const name = keys + (key === '*' ? '<*>' : key);
+        if (child.value !== null && name.indexOf(prefix) === 0) {
+          listing.push({
+            keys: name,
+            target: child.value,
+            noremap: noremapNodes.has(child),
+            origin: mappingOrigins.get(child) || this.describeOrigin(undefined),
+            shadowedBy: shadowedBy
+          });
+        }
+        walk(child, name, shadowedBy || (child.value !== null ? name : ''));
+      }
+    };
+    walk(this.trie(mode), '', '');
+    listing.sort((a, b) => a.keys < b.keys ? -1 : a.keys > b.keys ? 1 : 0);
+    if (mode === 'visual' || mode === 'command') {
+      (mode === 'visual' ? Visual.bindings : Command.bindings).forEach((e) => {
+        if (e[0].indexOf(prefix) === 0) {
+          listing.push({ keys: e[0], target: e[1], noremap: false, origin: 'default', shadowedBy: '' });
+        }
+      });
+    }
+    return listing;
+  },
+  parseLine: function(line: string, origin: string = Mappings.describeOrigin(null)) {
     const map = Utils.compressArray(line.split(/ +/));
     if (map.length) {
       switch (map[0]) {
@@ -357,40 +568,75 @@ export const Mappings: MappingsType = {
           return;
         case 'map':
         case 'remap':
+        case 'noremap':
+        case 'nnoremap':
+        case 'vmap':
+        case 'vnoremap':
+        case 'cmap':
+        case 'cnoremap': {
           if (map[1] === map[2]) {
             return;
           }
+          const trie = this.trie(map[0].charAt(0) === 'v' ? 'visual' :
+            map[0].charAt(0) === 'c' ? 'command' : 'normal');
           map[1] = map[1].replace(/<leader>/ig, settings.mapleader);
-          mappingTrie.removeByKey(this.splitMapping(map[1]));
-          mappingTrie.insert(this.splitMapping(map[1]), map.slice(2).join(' '));
+          trie.removeByKey(this.splitMapping(map[1]));
+          trie.insert(this.splitMapping(map[1]), map.slice(2).join(' '));
+          const node = trie.find(this.splitMapping(map[1]))!;
+          mappingOrigins.set(node, origin);
+          if (/noremap$/.test(map[0])) {
+            noremapNodes.add(node);
+          } else {
+            noremapNodes.delete(node);
+          }
           return;
+        }
         case 'imap':
         case 'iremap':
+        case 'inoremap': {
           if (map[1] === map[2]) {
             return;
           }
-          insertMappings.removeByKey(map[1]);
-          return insertMappings.insert(this.splitMapping(map[1]),
-            insertMappings.findValue(this.splitMapping(map[2])) ||
+          // Insert mappings are resolved here, inoremap only looks at the
+          // default insert mappings
+          insertMappings.removeByKey(this.splitMapping(map[1]));
+          insertMappings.insert(this.splitMapping(map[1]),
+            (map[0] === 'inoremap' ? this.defaultMapping('insert', map[2]) :
+              insertMappings.findValue(this.splitMapping(map[2]))) ||
             map.slice(2).join(' ').replace(/\s+".*/, ''));
-        case 'iunmap':
-          map.slice(1).forEach((unmap: string) => {
-            insertMappings.removeByKey(this.splitMapping(unmap));
-          });
+          const node = insertMappings.find(this.splitMapping(map[1]))!;
+          mappingOrigins.set(node, origin);
+          if (map[0] === 'inoremap') {
+            noremapNodes.add(node);
+          } else {
+            noremapNodes.delete(node);
+          }
           return;
+        }
         case 'unmap':
+        case 'iunmap':
+        case 'vunmap':
+        case 'cunmap': {
+          const trie = this.trie(({ i: 'insert', v: 'visual', c: 'command' } as
+            { [key: string]: MappingMode })[map[0].charAt(0)] || 'normal');
           map.slice(1).forEach((unmap: string) => {
-            mappingTrie.removeByKey(this.splitMapping(unmap));
+            trie.removeByKey(this.splitMapping(unmap));
           });
           return;
+        }
         case 'call':
           waitForLoad(function() {
-            const trimmedMap = Utils.trim(map.slice(1).join(' '));
+            // `call {count} {target}` runs the target count times
+            let trimmedMap = Utils.trim(map.slice(1).join(' '));
+            const count = trimmedMap.match(/^\d+/);
+            trimmedMap = trimmedMap.replace(/^\d+\s*/, '');
+            const repeats = count ? +count[0] || 1 : 1;
             if (trimmedMap[0] === ':') {
-              Command.execute(trimmedMap.slice(1).replace(/<CR>/i, ''), 1);
+              Command.execute(trimmedMap.slice(1).replace(/<CR>/i, ''), repeats);
             } else if (Mappings.actions.hasOwnProperty(trimmedMap)) {
               ECHO('callMapFunction', {
-                name: trimmedMap
+                name: trimmedMap,
+                repeats: repeats
               });
             } else {
               ECHO('eval', {
@@ -403,15 +649,34 @@ export const Mappings: MappingsType = {
       }
     }
   },
-  parseCustom: function(config: string, updateSiteMappings?: boolean) {
+  // origins holds where every line of config came from, by line index
+  parseCustom: function(config: string, updateSiteMappings?: boolean,
+    origins: MappingOrigin[] = settings.MAPPINGORIGINS || []) {
+    // Visual mode has no default mappings to restore
+    visualMappings.children = {};
+    commandMappings.children = {};
+    this.commandDefaults.forEach(function(e) {
+      if (e[0] && e[1]) {
+        commandMappings.insert(Mappings.splitMapping(e[0]), e[1]);
+        mappingOrigins.set(commandMappings.find(Mappings.splitMapping(e[0]))!, 'default');
+      }
+    });
     this.defaults.forEach(function(e) {
-      if (e[0] && e[1]) mappingTrie.insert(Mappings.splitMapping(e[0]), e[1]);
+      if (e[0] && e[1]) {
+        mappingTrie.insert(Mappings.splitMapping(e[0]), e[1]);
+        mappingOrigins.set(mappingTrie.find(Mappings.splitMapping(e[0]))!, 'default');
+      }
     });
     this.insertDefaults.forEach(function(e) {
-      if (e[0] && e[1]) insertMappings.insert(Mappings.splitMapping(e[0]), e[1]);
+      if (e[0] && e[1]) {
+        insertMappings.insert(Mappings.splitMapping(e[0]), e[1]);
+        mappingOrigins.set(insertMappings.find(Mappings.splitMapping(e[0]))!, 'default');
+      }
     });
-    Utils.split(config, '\n').forEach((e: string) => {
-      Mappings.parseLine(e);
+    config.split('\n').forEach((e: string, i: number) => {
+      if (e) {
+        Mappings.parseLine(e, Mappings.describeOrigin(origins[i]));
+      }
     });
 
     if (updateSiteMappings && settings.sites) {
@@ -437,9 +702,9 @@ export const Mappings: MappingsType = {
         }
       }
     }
-    const com = c[0]!;
+    const com = this.splitMapping(c)[0]!;
     this.queue += com;
-    this.queue = this.queue.slice(0, -1);
+    this.queue = this.queue.slice(0, -com.length);
     if (Hints.active) {
       Hints.handleHint(com);
     } else if (Visual.caretModeActive || Visual.visualModeActive) {
@@ -449,11 +714,11 @@ export const Mappings: MappingsType = {
     }
     if (!commandMode && !DOM.isEditable(document.activeElement)) {
       setTimeout(function() {
-        Mappings.executeSequence(c.substring(1), r);
+        Mappings.executeSequence(c.substring(com.length), r);
       });
     } else {
       setTimeout(function() {
-        (document.activeElement as any).value += c.substring(1);
+        (document.activeElement as any).value += c.substring(com.length);
       });
     }
   },
@@ -461,6 +726,11 @@ export const Mappings: MappingsType = {
     this.queue = '';
     this.repeats = '';
     currentTrieNode = mappingTrie;
+    pendingKeys.visual = [];
+    pendingKeys.command = [];
+    awaitingRegister = false;
+    pendingRegister = '';
+    WhichKey.hide();
 
     if (commandMode) {
       if (Command.type === 'search') {
@@ -509,14 +779,40 @@ export const Mappings: MappingsType = {
     window.stop();
   },
   clearQueue: function() {
+    WhichKey.hide();
     currentTrieNode = mappingTrie;
+    pendingKeys.visual = [];
+    pendingKeys.command = [];
     this.queue = this.repeats = '';
     this.validMatch = false;
+    awaitingRegister = false;
+    pendingRegister = '';
+  },
+  // Append a key typed in normal mode to the macro being recorded.
+  // Returns true when the key was the `q` that stops the recording.
+  recordKey: function(key: string): boolean {
+    if (!this.recordingMacro) {
+      return false;
+    }
+    if (key === 'q' && !Hints.active && !awaitingRegister &&
+      currentTrieNode === mappingTrie && this.repeats === '') {
+      RUNTIME('saveMacro', { name: this.recordingMacro, value: this.recordedKeys });
+      settings.macros[this.recordingMacro] = this.recordedKeys;
+      this.recordingMacro = '';
+      HUD.hide();
+      return true;
+    }
+    this.recordedKeys += key;
+    return false;
   },
   shouldPrevent: function(key: string): boolean {
     if (key === '<Esc>' || key === '<C-[>' || Hints.active) {
       return true;
     }
+    if (awaitingRegister ||
+      (key === '"' && currentTrieNode === mappingTrie && !mappingTrie.hasKey(key))) {
+      return true;
+    }
     if (/^[0-9]$/.test(key) &&
       !(currentTrieNode.hasKey(key) && this.repeats === '') &&
       !(key === '0' && this.repeats === '')) {
@@ -549,6 +845,17 @@ export const Mappings: MappingsType = {
       return false;
     }
 
+    // "a-"z select a register, "A-"Z append to it
+    if (awaitingRegister) {
+      awaitingRegister = false;
+      pendingRegister = /^[a-zA-Z]$/.test(key) ? key : '';
+      return true;
+    }
+    if (key === '"' && currentTrieNode === mappingTrie && !mappingTrie.hasKey(key)) {
+      awaitingRegister = true;
+      return true;
+    }
+
     this.queue += key;
     if (!currentTrieNode.hasKey(key)) {
       if (currentTrieNode.getKey('*')) {
@@ -580,8 +887,11 @@ export const Mappings: MappingsType = {
         mapVal = mapVal.replace(/^\d+/, '');
       }
       const mapLinks = [mapVal];
+      // The target keys of a noremap mapping keep their default meaning
+      const noremap = noremapNodes.has(currentTrieNode);
       while (!this.actions.hasOwnProperty(mapVal) && mapVal.charAt(0) !== ':') {
-        mapVal = mappingTrie.findValue(this.splitMapping(mapVal));
+        mapVal = noremap ? this.defaultMapping('normal', mapVal) :
+          mappingTrie.findValue(this.splitMapping(mapVal));
         if (mapVal === null) {
           this.clearQueue();
           return false;
@@ -601,6 +911,7 @@ export const Mappings: MappingsType = {
         this.lastCommand.params = actionParams;
         this.lastCommand.repeatStr = this.repeats;
       }
+      Clipboard.register = pendingRegister;
       if (mapVal.charAt(0) === ':') {
         this.actions.shortCuts(mapVal, this.lastCommand.repeats);
       } else {
@@ -614,6 +925,8 @@ export const Mappings: MappingsType = {
         }
       }
       this.clearQueue();
+    } else {
+      WhichKey.update(currentTrieNode, this.queue);
     }
 
     return true;
@@ -671,6 +984,8 @@ Mappings.defaults = [
   ['D', 'goForward'],
   ['[d', 'previousDomain'],
   [']d', 'nextDomain'],
+  ['[g', 'previousTabGroup'],
+  [']g', 'nextTabGroup'],
   ['g0', 'firstTab'],
   ['M*', 'addQuickMark'],
   ['A', 'openLastHint'],
@@ -680,10 +995,13 @@ Mappings.defaults = [
   ['gq', 'cancelWebRequest'],
   ['<C-S-h>', 'openLastLinkInTab'],
   ['gh', 'openLastLinkInTab'],
+  ['g?', 'showCheatSheet'],
   ['<C-S-l>', 'openNextLinkInTab'],
   ['gl', 'openNextLinkInTab'],
   ['gQ', 'cancelAllWebRequests'],
-  ['q', 'createHoverHint'],
+  ['gH', 'createHoverHint'],
+  ['q*', 'recordMacro'],
+  ['@*', 'playMacro'],
   ['Q', 'createUnhoverHint'],
   ['g$', 'lastTab'],
   ['X', 'lastClosedTab'],
@@ -743,6 +1061,195 @@ Mappings.defaults = [
 
 Mappings.defaultsClone = (Object as any).clone(Mappings.defaults);
 
+// Short descriptions of the mapping targets, shown where mappings are listed
+Mappings.descriptions = {
+  scrollDown: 'scroll down',
+  scrollUp: 'scroll up',
+  scrollLeft: 'scroll left',
+  scrollRight: 'scroll right',
+  scrollPageDown: 'scroll half-page down',
+  scrollFullPageDown: 'scroll full-page down',
+  scrollPageUp: 'scroll half-page up',
+  scrollFullPageUp: 'scroll full-page up',
+  scrollToTop: 'scroll to the top of the page',
+  scrollToBottom: 'scroll to the bottom of the page',
+  scrollToLeft: 'scroll to the left of the page',
+  scrollToRight: 'scroll to the right of the page',
+  resetScrollFocus: 'reset the scroll focus to the main page',
+  goToInput: 'go to first input box',
+  goToLastInput: 'go to the last focused input box by gi',
+  centerMatchH: 'center page to current search match (middle)',
+  centerMatchT: 'center page to current search match (top)',
+  centerMatchB: 'center page to current search match (bottom)',
+  createHint: 'open link in current tab',
+  createTabbedHint: 'open link in new tab',
+  createActiveTabbedHint: 'open link in new tab (active)',
+  createHintWindow: 'open link in new window',
+  openLastHint: 'repeat last hint command',
+  createHoverHint: 'trigger a hover event (mouseover + mouseenter)',
+  createUnhoverHint: 'trigger an unhover event (mouseout + mouseleave)',
+  createMultiHint: 'open multiple links',
+  createEditHint: 'edit text with external editor',
+  createScriptHint: 'call a code block with the link as the first argument',
+  fullImageHint: 'opens images in a new tab',
+  multiReverseImage: 'reverse image search multiple links',
+  multiYankUrl: 'yank multiple links (open the list of links with P)',
+  yankUrl: 'copy URL from link to clipboard',
+  reverseImage: 'reverse image search (google images)',
+  addQuickMark: 'create quickmark <*>',
+  openQuickMark: 'open quickmark <*> in the current tab',
+  openQuickMarkTabbed: 'open quickmark <*> in a new tab',
+  openQuickMarkWindowed: 'open quickmark <*> in a new window',
+  repeatCommand: 'repeat the last command',
+  openCommandBar: 'open command bar',
+  openCommandPalette: 'search every action and ex-command, a count is passed to the one chosen',
+  showCheatSheet: 'show the mappings of the current page in a searchable overlay',
+  openSearchBar: 'open search bar',
+  openSearchBarReverse: 'open search bar (reverse search)',
+  openLinkSearchBar: 'open link search bar (same as pressing /?)',
+  percentScroll: 'scroll <N> percent down the page',
+  passKeys: 'pass <N> keys through to the current page',
+  insertMode: 'enter insert mode (escape to exit)',
+  reloadTab: 'reload the current tab',
+  reloadTabUncached: 'reload the current tab + local cache',
+  recordMacro: 'record the keys typed in normal mode into macro <*> (q stops recording)',
+  playMacro: 'replay macro <*> (@@ replays the last macro)',
+  setMark: 'create mark <*> (uppercase marks are global and remember the page and selected text)',
+  lastScrollPosition: 'go to last scroll position',
+  previousScrollPosition: 'go to previous scroll position',
+  nextScrollPosition: 'go to next scroll position',
+  goToMark: 'go to mark <*> (uppercase marks switch to or open the marked page)',
+  muteTab: 'mute/unmute a tab',
+  reloadAllTabs: 'reload all tabs',
+  reloadAllButCurrent: 'reload all tabs but current',
+  zoomPageIn: 'zoom page in',
+  zoomPageOut: 'zoom page out',
+  zoomOrig: 'zoom page to original size',
+  toggleImageZoom: 'toggle image zoom (same as clicking the image on image-only pages)',
+  yankDocumentUrl: 'copy the URL of the current page to the clipboard',
+  yankWindowUrls: 'copy the URLs in the current window',
+  yankHighlight: 'copy the currently matched text from find mode (if any)',
+  openPaste: 'open the clipboard selection',
+  openPasteTab: 'open the clipboard selection in a new tab',
+  hideDownloadsShelf: 'hide the download shelf',
+  nextFrame: 'cycle through iframes',
+  rootFrame: 'go to the root frame',
+  cancelWebRequest: 'stop the current tab from loading',
+  cancelAllWebRequests: 'stop all tabs from loading',
+  goUpUrl: 'go up one path in the URL',
+  goToRootUrl: 'go to the base URL',
+  createBookmark: 'create or toggle a bookmark for the current URL',
+  quitChrome: 'close all browser windows',
+  decrementURLPath: 'decrement the last number in the URL (e.g www.example.com/5 => www.example.com/4)',
+  incrementURLPath: 'increment the last number in the URL (zero padding is preserved)',
+  nextTab: 'navigate to the next tab',
+  previousTab: 'navigate to the previous tab',
+  firstTab: 'go to the first tab',
+  lastTab: 'go to the last tab',
+  openLastLinkInTab: 'open the last URL in the current tab\'s history in a new tab',
+  openNextLinkInTab: 'open the next URL from the current tab\'s history in a new tab',
+  closeTab: 'close the current tab',
+  closeTabLeft: 'close the tab to the left of the current tab',
+  closeTabRight: 'close the tab to the right of the current tab',
+  closeTabsToLeft: 'close all tabs to the left of the current tab',
+  closeTabsToRight: 'close all tabs to the right of the current tab',
+  lastClosedTab: 'open the last closed tab',
+  goToTab: 'switch to tab <N>',
+  goBack: 'go back',
+  goForward: 'go forward',
+  moveTabLeft: 'move current tab left',
+  moveTabRight: 'move current tab right',
+  nextMatchPattern: 'click the "next" link on the page',
+  previousMatchPattern: 'click the "back" link on the page',
+  pinTab: 'pin/unpin the current tab',
+  nextTabGroup: 'go to the next tab group',
+  previousTabGroup: 'go to the previous tab group',
+  lastUsedTab: 'toggle the focus between the last used tabs',
+  nextSearchResult: 'next search result',
+  previousSearchResult: 'previous search result',
+  toggleVisualMode: 'enter visual/caret mode (highlight current search/selection)',
+  toggleVisualLineMode: 'enter visual line mode from caret mode/currently highlighted search',
+  clearSearchHighlight: 'clear search mode highlighting',
+  yankFrameUrl: 'copy the URL of the current frame to the clipboard',
+  lastActiveTab: 'go to the last active tab',
+  previousDomain: 'go back to the previous domain in the tab history',
+  nextDomain: 'go forward to the next domain in the tab history',
+  nextCompletionResult: 'select the next completion result',
+  previousCompletionResult: 'select the previous completion result',
+  '<Nop>': 'do nothing'
+};
+
+// The groups the mapping targets are listed under, in README order
+Mappings.categories = [
+  ['Movement', [
+    'scrollDown', 'scrollUp', 'scrollLeft', 'scrollRight', 'scrollPageDown',
+    'scrollFullPageDown', 'scrollPageUp', 'scrollFullPageUp', 'scrollToTop',
+    'scrollToBottom', 'scrollToLeft', 'scrollToRight', 'resetScrollFocus',
+    'goToInput', 'goToLastInput', 'centerMatchH', 'centerMatchT',
+    'centerMatchB'
+  ]],
+  ['Link Hints', [
+    'createHint', 'createTabbedHint', 'createActiveTabbedHint',
+    'createHintWindow', 'openLastHint', 'createHoverHint',
+    'createUnhoverHint', 'createMultiHint', 'createEditHint',
+    'createScriptHint', 'fullImageHint', 'multiReverseImage', 'multiYankUrl',
+    'yankUrl', 'reverseImage'
+  ]],
+  ['QuickMarks', [
+    'addQuickMark', 'openQuickMark', 'openQuickMarkTabbed',
+    'openQuickMarkWindowed'
+  ]],
+  ['Miscellaneous', [
+    'repeatCommand', 'openCommandBar', 'openCommandPalette', 'showCheatSheet',
+    'openSearchBar', 'openSearchBarReverse', 'openLinkSearchBar',
+    'percentScroll', 'passKeys', 'insertMode', 'reloadTab',
+    'reloadTabUncached', 'recordMacro', 'playMacro', 'setMark',
+    'lastScrollPosition', 'previousScrollPosition', 'nextScrollPosition',
+    'goToMark', 'muteTab', 'reloadAllTabs', 'reloadAllButCurrent',
+    'zoomPageIn', 'zoomPageOut', 'zoomOrig', 'toggleImageZoom',
+    'yankDocumentUrl', 'yankFrameUrl', 'yankWindowUrls', 'yankHighlight',
+    'openPaste', 'openPasteTab', 'hideDownloadsShelf', 'nextFrame',
+    'rootFrame', 'cancelWebRequest', 'cancelAllWebRequests', 'goUpUrl',
+    'goToRootUrl', 'createBookmark', 'quitChrome', 'decrementURLPath',
+    'incrementURLPath'
+  ]],
+  ['Tab Navigation', [
+    'nextTab', 'previousTab', 'firstTab', 'lastTab', 'openLastLinkInTab',
+    'openNextLinkInTab', 'closeTab', 'closeTabLeft', 'closeTabRight',
+    'closeTabsToLeft', 'closeTabsToRight', 'lastClosedTab', 'goToTab',
+    'goBack', 'goForward', 'moveTabLeft', 'moveTabRight', 'nextMatchPattern',
+    'previousMatchPattern', 'pinTab', 'nextTabGroup', 'previousTabGroup',
+    'lastUsedTab', 'lastActiveTab', 'previousDomain', 'nextDomain'
+  ]],
+  ['Find Mode', [
+    'nextSearchResult', 'previousSearchResult', 'toggleVisualMode',
+    'toggleVisualLineMode', 'clearSearchHighlight'
+  ]]
+];
+
+Mappings.insertDescriptions = {
+  beginningOfLine: 'move cursor to the beginning of the line',
+  endOfLine: 'move cursor to the end of the line',
+  deleteToBeginning: 'delete to the beginning of the line',
+  deleteToEnd: 'delete to the end of the line',
+  deleteWord: 'delete back one word',
+  deleteForwardWord: 'delete forward one word',
+  deleteChar: 'delete back one character',
+  deleteForwardChar: 'delete forward one character',
+  backwardWord: 'move cursor back one word',
+  forwardWord: 'move cursor forward one word',
+  forwardChar: 'move cursor forward one letter',
+  backwardChar: 'move cursor back one letter',
+  forwardLine: 'move cursor forward one line',
+  backwardLine: 'move cursor back one line',
+  selectAll: 'select input text (equivalent to <C-a>)',
+  insertPageWord: 'insert the selected word of the page, or the word at the caret',
+  insertUrl: 'insert the URL of the current page',
+  insertClipboard: 'insert the contents of the clipboard',
+  openCommandWindow: 'edit the command history in a window (command bar only)',
+  editWithVim: 'edit with Vim in a terminal (needs cvim_server.py running)'
+};
+
 Mappings.actions = {
 
   lastUsedTab: function() { RUNTIME('lastUsedTab'); },
@@ -1017,19 +1524,23 @@ Mappings.actions = {
     Scroll.nextHistoryState();
   },
   goToMark: function() {
-    const key = Mappings.lastCommand.queue.slice(-1);
-    if (Scroll.positions.hasOwnProperty(key)) {
-      Scroll.lastPosition =
-        [document.scrollingElement!.scrollLeft, document.scrollingElement!.scrollTop];
-      const position = Scroll.positions[key];
-      if (position) window.scrollTo(...position);
-    } else {
-      Status.setMessage('Mark not set', 1, 'error');
-    }
+    // Marks are kept by the background page so they survive reloads;
+    // uppercase marks may also switch to (or open) another tab
+    RUNTIME('goToMark', { name: Mappings.lastCommand.queue.slice(-1) }, function(found: boolean) {
+      if (!found) {
+        Status.setMessage('Mark not set', 1, 'error');
+      }
+    });
   },
   setMark: function() {
-    Scroll.positions[Mappings.lastCommand.queue.slice(-1)] =
+    const key = Mappings.lastCommand.queue.slice(-1);
+    const position: [number, number] =
       [document.scrollingElement!.scrollLeft, document.scrollingElement!.scrollTop];
+    let anchor: string | undefined;
+    if (/^[A-Z]$/.test(key)) {
+      anchor = (document.getSelection()?.toString() || '').trim().split('\n')[0] || undefined;
+    }
+    RUNTIME('setMark', { name: key, position: position, anchor: anchor });
   },
   createHint: function() { Hints.create(); },
   createTabbedHint: function() { Hints.create('tabbed'); },
@@ -1050,34 +1561,34 @@ Mappings.actions = {
   fullImageHint: function() { Hints.create('fullimage'); },
   yankDocumentUrl: function() {
     RUNTIME('getRootUrl', function(url: string) {
-      (Clipboard as any).copy(url);
+      Clipboard.copy(url);
       Status.setMessage(url, 2);
     });
   },
   yankFrameUrl: function() {
-    (Clipboard as any).copy(document.URL);
+    Clipboard.copy(document.URL);
     Status.setMessage(document.URL, 2);
   },
   yankWindowUrls: function() {
-    PORT('yankWindowUrls');
+    PORT('yankWindowUrls', { register: Clipboard.register || undefined });
   },
   yankHighlight: function() {
     const selection = document.getSelection();
     if (selection?.type === 'Range' && selection.toString() !== '') {
-      (Clipboard as any).copy(selection.toString());
+      Clipboard.copy(selection.toString());
       return;
     }
     const match = Find.matches[Find.index];
     if (match) {
-      (Clipboard as any).copy(match.textContent);
+      Clipboard.copy(match.textContent);
     }
   },
   openPaste: function() {
-    (Clipboard as any).paste(false);
+    Clipboard.paste(false);
   },
   openPasteTab: function(repeats: number) {
     for (let i = 0; i < repeats; ++i) {
-      (Clipboard as any).paste(true);
+      Clipboard.paste(true);
     }
   },
   nextCompletionResult: function() {
@@ -1160,6 +1671,12 @@ Mappings.actions = {
   previousTab: function(r: number) {
     RUNTIME('previousTab', { repeats: r });
   },
+  nextTabGroup: function(r: number) {
+    RUNTIME('nextTabGroup', { repeats: r });
+  },
+  previousTabGroup: function(r: number) {
+    RUNTIME('previousTabGroup', { repeats: r });
+  },
   goBack: function(repeats: number) {
     history.go(-1 * repeats);
   },
@@ -1305,6 +1822,13 @@ Mappings.actions = {
     commandMode = true;
     return Command.show(false, '', settings.completeonopen);
   },
+  showCheatSheet: function() {
+    CheatSheet.show();
+  },
+  openCommandPalette: function(repeats: number) {
+    commandMode = true;
+    return Command.show(false, 'call ' + (repeats > 1 ? repeats + ' ' : ''), true);
+  },
   repeatCommand: function(repeats: number) {
     if (Mappings.actions.hasOwnProperty(Mappings.lastCommand.fn)) {
       (Mappings.actions as any)[Mappings.lastCommand.fn]
@@ -1329,6 +1853,53 @@ Mappings.actions = {
   muteTab: function() {
     RUNTIME('muteTab');
   },
+  recordMacro: function() {
+    const name = Mappings.queue.slice(-1);
+    if (!/^[a-z0-9]$/.test(name)) {
+      Status.setMessage('invalid register: ' + name, 1, 'error');
+      return;
+    }
+    Mappings.recordingMacro = name;
+    Mappings.recordedKeys = '';
+    HUD.display(' -- RECORDING @' + name + ' -- ');
+  },
+  playMacro: function(repeats: number) {
+    let name = Mappings.lastCommand.queue.slice(-1);
+    if (name === '@') {
+      name = Mappings.lastMacro;
+    }
+    if (!settings.macros[name]) {
+      Status.setMessage('macro not set: ' + (name || '@'), 1, 'error');
+      return;
+    }
+    // The macros a macro plays are expanded in place, so one that ends up
+    // playing itself (@@ inside it, or a -> @b -> @a) is caught before any
+    // of its keys run
+    const expand = function(name: string, playing: string[]): string | null {
+      if (playing.indexOf(name) !== -1) {
+        return null;
+      }
+      let recursive = false;
+      const keys = settings.macros[name].replace(/(\d*)@([a-z0-9@])/g,
+        (match: string, count: string, inner: string) => {
+          inner = inner === '@' ? name : inner;
+          if (!settings.macros[inner]) {
+            return match;
+          }
+          const expanded = expand(inner, playing.concat(name));
+          recursive = recursive || expanded === null;
+          return (expanded || '').repeat(+count || 1);
+        });
+      return recursive ? null : keys;
+    };
+    const keys = expand(name, []);
+    if (keys === null) {
+      Status.setMessage('recursive macro detected', 1, 'error');
+      return;
+    }
+    Mappings.lastMacro = name;
+    Mappings.executeSequence(keys.repeat(repeats));
+  },
 
   inputFocused: false,
   inputElements: [],
@@ -1340,16 +1911,64 @@ Mappings.actions = {
 };
 
 (function() {
-  const replaceURLNumber = function(callback: (e: string) => number) {
-    const url = document.URL.replace(/\b\d+\b/, (match) => String(callback(match)));
-    if (url !== document.URL)
-      RUNTIME('openLink', { url: url, tab: { tabbed: false } });
+  // Locate the number to be changed, returning its [start, end) offsets.
+  // When urlincrementpattern is set, the number inside its first capture
+  // group (or the last number inside the whole match) is used. Otherwise,
+  // the last number after the host (path, query or fragment) is chosen.
+  const findURLNumber = function(url: string): [number, number] | null {
+    let searchStart = 0;
+    let pattern: RegExp = /\d+/g;
+    if (settings.urlincrementpattern) {
+      try {
+        pattern = new RegExp(settings.urlincrementpattern, 'gd');
+      } catch (e) {
+        Status.setMessage('invalid urlincrementpattern: ' +
+                          settings.urlincrementpattern, 2, 'error');
+        return null;
+      }
+    } else {
+      const host = url.match(/^[a-z][\w+.-]*:\/\/[^/?#]*/i);
+      if (host)
+        searchStart = host[0].length;
+    }
+
+    let range: [number, number] | null = null;
+    for (const match of url.slice(searchStart).matchAll(pattern)) {
+      if (match[0].length === 0)
+        continue;
+      let [start, end] = match.indices?.[1] || [match.index!, match.index! + match[0].length];
+      const digits = /\d+(?!.*\d)/.exec(url.slice(searchStart + start, searchStart + end));
+      if (digits === null)
+        continue;
+      start += digits.index;
+      end = start + digits[0].length;
+      range = [searchStart + start, searchStart + end];
+    }
+    return range;
+  };
+
+  const replaceURLNumber = function(callback: (e: number) => number) {
+    const url = document.URL;
+    const range = findURLNumber(url);
+    if (range === null)
+      return;
+    const match = url.slice(range[0], range[1]);
+    let replacement = String(callback(+match));
+    // Keep zero padding intact (e.g. page-009 => page-010)
+    if (match.length > 1 && match[0] === '0')
+      replacement = replacement.padStart(match.length, '0');
+    if (replacement !== match) {
+      RUNTIME('openLink', {
+        url: url.slice(0, range[0]) + replacement + url.slice(range[1]),
+        tab: { tabbed: false }
+      });
+    }
   };
   Mappings.actions.incrementURLPath = function(repeats: number) {
-    replaceURLNumber(function(e: string) { return +e + repeats; });
+    replaceURLNumber(function(e: number) { return e + repeats; });
   };
   Mappings.actions.decrementURLPath = function(repeats: number) {
-    replaceURLNumber(function(e: string) { return Math.max(0, +e - repeats); });
+    replaceURLNumber(function(e: number) { return Math.max(0, e - repeats); });
   };
 })();
 
@@ -1368,6 +1987,21 @@ Mappings.insertDefaults = [
   ['<C-h>', 'backwardWord'],
 ];
 
+// Command bar keys, mapped like cmap mappings so they can be changed
+Mappings.commandDefaults = [
+  ['<C-w>', 'deleteWord'],
+  ['<C-u>', 'deleteToBeginning'],
+  ['<C-a>', 'beginningOfLine'],
+  ['<C-e>', 'endOfLine'],
+  ['<A-b>', 'backwardWord'],
+  ['<A-f>', 'forwardWord'],
+  ['<A-d>', 'deleteForwardWord'],
+  ['<C-r><C-w>', 'insertPageWord'],
+  ['<C-r>%', 'insertUrl'],
+  ['<C-r>"', 'insertClipboard'],
+  ['<C-f>', 'openCommandWindow'],
+];
+
 Mappings.insertFunctions = (function() {
   const selection = document.getSelection();
   let element: HTMLElement;
@@ -1383,6 +2017,18 @@ Mappings.insertFunctions = (function() {
     )(...args);
   }
 
+  // Inserts text at the caret, replacing the selection
+  function insertText(text: string) {
+    if (!text || !element) {
+      return;
+    }
+    element.focus();
+    document.execCommand('insertText', false, text);
+    if (Command.commandBarFocused() && Command.type === 'action') {
+      Command.complete(Command.input.value);
+    }
+  }
+
   function deleteSelection(): boolean {
     if (selection?.type === 'Range' && selection.toString().length !== 0) {
       document.execCommand('delete', false);
@@ -1487,6 +2133,26 @@ Mappings.insertFunctions = (function() {
       if ((element as any).select) {
         (element as any).select();
       }
+    },
+    // The command bar frame has no page selection of its own, so the word
+    // is read from the frame it was opened from
+    insertPageWord: function() {
+      if (window.isCommandFrame) {
+        RUNTIME('getFrameSelection', insertText);
+        return;
+      }
+      insertText(DOM.selectedWord());
+    },
+    insertUrl: function() {
+      RUNTIME('getRootUrl', insertText);
+    },
+    insertClipboard: function() {
+      RUNTIME('getPaste', insertText);
+    },
+    openCommandWindow: function() {
+      if (Command.commandBarFocused()) {
+        Command.openCommandWindow();
+      }
     }
   };
 })();
@@ -46,6 +46,8 @@ type RuntimeMessageAction =
   | 'deleteBackWord'
   | 'toggleEnabled'
   | 'getBlacklistStatus'
+  | 'getFrameMappings'
+  | 'getFrameSelection'
   | 'alert'
   | 'showCommandFrame'
   | 'hideCommandFrame'
@@ -55,6 +57,8 @@ type RuntimeMessageAction =
   | 'cancelIncSearch'
   | 'echoRequest'
   | 'displayTabIndices'
+  | 'restoreMark'
+  | 'autocmdNavigate'
   | 'isFrameVisible';
 
 // Utility function type for message wrapping
@@ -79,7 +83,10 @@ declare const HUD: any;
 declare const DOM: any;
 declare const Marks: any;
 declare const Search: any;
+declare const Scroll: any;
 declare const Frames: any;
+declare const Autocmds: any;
+declare const Hints: any;
 declare const Session: any;
 declare const searchArray: any;
 declare const httpCallback: any;
@@ -90,6 +97,7 @@ declare const insertMode: boolean;
 // Message utility functions - will be defined below
 let RUNTIME: MessageWrapper;
 let PORT: MessageWrapper;
+let ECHO: MessageWrapper;
 
 // Establish connection to background script using Manifest v3 API
 const messagePort: ChromePort = chrome.runtime.connect({ name: 'main' }) as ChromePort;
@@ -124,6 +132,11 @@ messagePort.onDisconnect.addListener(() => {
 
   RUNTIME = $(chrome.runtime.sendMessage, chrome.runtime);
   PORT = $(messagePort.postMessage, messagePort);
+
+  // Sends a request to every frame of the tab, handled as echoRequest
+  ECHO = function(call: string, args?: any) {
+    PORT('echoRequest', Object.assign({}, args, { call: call }));
+  };
 })();
 
 // Handle messages from background script via port
@@ -209,7 +222,8 @@ messagePort.onMessage.addListener((response: PortMessage) => {
                 array: response.buffers,
                 search: val,
                 limit: (window as any).settings.searchlimit,
-                fn: function(item: any) { return item.join(' '); }
+                fn: function(item: any) { return item.join(' '); },
+                matcher: (window as any).settings.completionmatcher
               });
             }
             return response.buffers[+val - 1] ? [response.buffers[+val - 1]] : [];
@@ -271,6 +285,8 @@ messagePort.onMessage.addListener((response: PortMessage) => {
       } else {
         (window as any).settings = response.settings;
         Mappings.parseCustom((window as any).settings.MAPPINGS, true);
+        Hints.loadSiteFilters((window as any).settings.sites);
+        Autocmds.load();
       }
       break;
   }
@@ -300,6 +316,8 @@ chrome.runtime.onMessage.addListener((request: RuntimeMessage, _sender: chrome.r
       } else {
         (window as any).settings = request.settings;
         Mappings.parseCustom((window as any).settings.MAPPINGS, true);
+        Hints.loadSiteFilters((window as any).settings.sites);
+        Autocmds.load();
       }
       break;
 
@@ -311,6 +329,14 @@ chrome.runtime.onMessage.addListener((request: RuntimeMessage, _sender: chrome.r
       Marks.parseQuickMarks(request.marks);
       break;
 
+    case 'restoreMark':
+      Scroll.jumpToMark(request.position, request.anchor);
+      break;
+
+    case 'autocmdNavigate':
+      Autocmds.navigate(request.url);
+      break;
+
     case 'nextCompletionResult':
       if (window.isCommandFrame) {
         if ((window as any).settings.cncpcompletion &&
@@ -340,6 +366,18 @@ chrome.runtime.onMessage.addListener((request: RuntimeMessage, _sender: chrome.r
       Command.init(!Command.loaded);
       break;
 
+    case 'getFrameMappings':
+      if (!window.isCommandFrame) {
+        callback(Mappings.listBindings(request.mode, request.prefix));
+      }
+      break;
+
+    case 'getFrameSelection':
+      if (!window.isCommandFrame) {
+        callback(DOM.selectedWord());
+      }
+      break;
+
     case 'getBlacklistStatus':
       callback(Command.blacklisted);
       break;
@@ -418,10 +456,22 @@ chrome.runtime.onMessage.addListener((request: RuntimeMessage, _sender: chrome.r
       break;
 
     case 'echoRequest':
+      // Autocommands added or removed in the command bar apply to the page
+      // frames, where they fire
+      if (request.call === 'autocmd') {
+        if (!window.isCommandFrame) {
+          if (request.clear) {
+            Autocmds.clear(request.group);
+          } else {
+            Autocmds.add(request.autocmd);
+          }
+        }
+        break;
+      }
       if (!window.isCommandFrame && document.hasFocus()) {
         switch (request.call) {
           case 'callMapFunction':
-            Mappings.actions[request.name](1);
+            Mappings.actions[request.name](request.repeats || 1);
             break;
           case 'eval':
             eval((window as any).settings.FUNCTIONS[request.name] + request.args);
@@ -462,4 +512,4 @@ chrome.runtime.onMessage.addListener((request: RuntimeMessage, _sender: chrome.r
 });
 
 // Export messaging functions for use in other modules
-export { RUNTIME, PORT };
+export { RUNTIME, PORT, ECHO };
@@ -33,7 +33,6 @@ interface ScrollAnimationState {
 }
 
 interface ScrollInterface {
-  positions: Record<string, any>;
   history: ScrollHistoryState[];
   historyIndex: number;
   lastPosition?: [number, number];
@@ -45,6 +44,7 @@ interface ScrollInterface {
   currentState(): ScrollHistoryState | null;
   lastState(): ScrollHistoryState | null;
   addHistoryState(): boolean;
+  jumpToMark(position: [number, number], anchor?: string): void;
   scroll(type: ScrollType, repeats: number): void;
 }
 
@@ -357,7 +357,6 @@ const scrollingElement = (function() {
 
 // Main Scroll object with history and scrolling functionality
 export const Scroll: ScrollInterface = {
-  positions: {},
   history: [],
   historyIndex: 0,
 
@@ -403,6 +402,36 @@ export const Scroll: ScrollInterface = {
     }
   },
 
+  // Jump to a mark, preferring the occurrence of its text anchor (if any)
+  // closest to the saved position so marks survive small layout changes
+  jumpToMark(position: [number, number], anchor?: string): void {
+    const scrollElem = document.scrollingElement;
+    if (!scrollElem) {
+      return;
+    }
+    this.lastPosition = [scrollElem.scrollLeft, scrollElem.scrollTop];
+    let target: Element | null = null;
+    if (anchor && document.body) {
+      let distance = Infinity;
+      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (!node.parentElement || node.nodeValue!.indexOf(anchor) === -1) {
+          continue;
+        }
+        const top = node.parentElement.getBoundingClientRect().top + scrollElem.scrollTop;
+        if (Math.abs(top - position[1]) < distance) {
+          distance = Math.abs(top - position[1]);
+          target = node.parentElement;
+        }
+      }
+    }
+    if (target) {
+      target.scrollIntoView({ block: 'center' });
+    } else {
+      window.scrollTo(position[0], position[1]);
+    }
+  },
+
   // Get current scroll state
   currentState(): ScrollHistoryState | null {
     // TODO: make work with nested scrolling elements
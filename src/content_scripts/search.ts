@@ -4,6 +4,7 @@
 // External dependencies
 declare const settings: {
   searchlimit?: number;
+  [key: string]: any;
 };
 
 declare const Command: {
@@ -39,11 +40,16 @@ type CompletionResultType =
   | 'windows'
   | 'chromesessions'
   | 'markOptions'
+  | 'marks'
+  | 'tabgroups'
   | 'sessions'
+  | 'palette'
+  | 'mappings'
   | 'files'
   | 'settings'
   | 'paths'
   | 'buffers'
+  | 'tablist'
   | 'complete';
 
 // Completion result arrays with different structures based on type
@@ -54,7 +60,14 @@ type CompletionResult =
   | [CompletionResultType, string, string, string, string]; // 5-element result
 
 interface SearchMatchCallback {
-  (results: string[]): void;
+  (results: any[]): void;
+}
+
+// Settings schema entry sent by the background page
+interface SettingSchemaInfo {
+  type: string;
+  values?: string[];
+  default: any;
 }
 
 interface SearchInterface {
@@ -62,9 +75,10 @@ interface SearchInterface {
   topSites: Array<[string, string]>;
   chromeUrls: readonly string[];
   settings?: string[];
+  settingsSchema?: { [name: string]: SettingSchemaInfo };
 
   chromeMatch(searchString: string, callback: SearchMatchCallback): void;
-  settingsMatch(searchString: string, callback: SearchMatchCallback): void;
+  settingsMatch(searchString: string, callback: SearchMatchCallback, all?: boolean): void;
   nextResult(reverse?: boolean): boolean | void;
 }
 
@@ -109,18 +123,32 @@ export const Search: SearchInterface = {
   /**
    * Match settings against search string
    * @param searchString - String to match against settings (removes 'no' prefix)
-   * @param callback - Callback function to receive matched results
+   * @param callback - Callback function to receive [name, type and values] rows
+   * @param all - Whether to return every match rather than settings.searchlimit
    */
-  settingsMatch(searchString: string, callback: SearchMatchCallback): void {
-    if (!this.settings) {
-      callback([]);
+  settingsMatch(searchString: string, callback: SearchMatchCallback, all = false): void {
+    const schema = this.settingsSchema;
+    if (!schema) {
+      callback(this.settings ? searchArray({
+        array: this.settings,
+        search: searchString.replace(/^no/, ''),
+        limit: settings?.searchlimit
+      }) : []);
       return;
     }
 
+    const format = (value: any): string => {
+      return typeof value === 'string' || typeof value === 'object' ?
+        JSON.stringify(value) : String(value);
+    };
     callback(searchArray({
-      array: this.settings,
+      array: Object.keys(schema),
       search: searchString.replace(/^no/, ''),
-      limit: settings?.searchlimit
+      limit: all ? undefined : settings?.searchlimit
+    }).map((name) => {
+      const info = schema[name]!;
+      return [name, (info.values ? info.values.join('|') : info.type) +
+        ' = ' + format(settings[name]) + ' (default ' + format(info.default) + ')'];
     }));
   },
 
@@ -270,6 +298,8 @@ export const Search: SearchInterface = {
         }
         break;
 
+      case 'marks':
+      case 'tabgroups':
       case 'sessions':
         if (result.length >= 2) {
           const match = Command.input.value.match(/^\S+/);
@@ -278,6 +308,20 @@ export const Search: SearchInterface = {
         }
         break;
 
+      case 'palette':
+        if (result.length >= 2) {
+          const match = Command.input.value.match(/^\S+\s+(\d+\s*)?/);
+          Command.input.value = (match ? match[0] : 'call ') + result[1];
+        }
+        break;
+
+      case 'mappings':
+        if (result.length >= 2) {
+          const match = Command.input.value.match(/^(verbose\s+)?\S+\s+/);
+          Command.input.value = (match ? match[0] : 'map ') + result[1];
+        }
+        break;
+
       case 'files':
         if (result.length >= 2) {
           Command.input.value = Command.input.value.replace(/[^\/]+$/, '') + result[1];
@@ -304,6 +348,7 @@ export const Search: SearchInterface = {
         break;
 
       case 'buffers':
+      case 'tablist':
         if (result.length >= 2) {
           const match = Command.input.value.match(/^\S+/);
           const prefix = match ? match[0] + ' ' : '';
@@ -1,7 +1,7 @@
 // RCParser is loaded globally by cvimrc_parser.js (loaded first in manifest)
 declare global {
   const RCParser: {
-    parse: (input: string) => any;
+    parse: (input: string, options?: { [key: string]: any }) => any;
     SyntaxError: any;
   };
 }
@@ -26,16 +26,42 @@ interface SearchOptions<T> {
   search: string;
   limit?: number;
   fn?: (item: T) => string;
+  matcher?: string;
+}
+
+interface TextMatch {
+  score: number;
+  indices: number[];
 }
 
 interface ParseConfigResult {
   error: {
     lineno: number;
+    column: number;
     message: string;
+    file?: string;
   } | null;
   value: any;
 }
 
+export interface ConfigDiagnostic {
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Names the linter checks the cVimrc against, supplied by the caller since
+// they live in other content scripts
+export interface LintConfigContext {
+  settings: { [name: string]: { type: string } };
+  actions: string[];
+  insertActions: string[];
+  commands: string[];
+  keys: string[];
+  insertKeys: string[];
+}
+
 
 export const Utils = {
   cacheFunction<T, R>(callback: (arg: T) => R): CachedFunction<T, R> {
@@ -232,10 +258,106 @@ export const eachUntil = function <T>(array: T[], callback: (item: T, index: num
   }
 };
 
+const WORD_SEPARATOR = /[\/?:.\-\s]+/;
+
+const isWordBoundary = function(text: string, index: number): boolean {
+  if (index === 0)
+    return true;
+  const prev = text.charAt(index - 1);
+  const current = text.charAt(index);
+  return !/[a-zA-Z0-9]/.test(prev) ||
+    (/[a-z]/.test(prev) && /[A-Z]/.test(current));
+};
+
+// Matches the characters of query in order. Runs of consecutive characters
+// and characters at the start of a word score higher.
+const fuzzyMatch = function(query: string, text: string): TextMatch | null {
+  const lowerText = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let streak = 0;
+  let last = -1;
+  for (let i = 0; i < query.length; i++) {
+    const index = lowerText.indexOf(query.charAt(i), last + 1);
+    if (index === -1)
+      return null;
+    streak = index === last + 1 ? streak + 1 : 0;
+    score += 1 + streak * 2;
+    if (isWordBoundary(text, index))
+      score += 3;
+    indices.push(index);
+    last = index;
+  }
+  // Prefer shorter texts when the matches are otherwise equal
+  return { score: score - text.length / 1000, indices };
+};
+
+/**
+ * Match search against text using one of the completion matchers:
+ *  substring - every word of search starts a word of text (the default)
+ *  fuzzy     - every word of search is a subsequence of text
+ *  regex     - search is a case-insensitive regular expression
+ * Returns null when text does not match.
+ */
+export const matchText = function(search: string, text: string, matcher?: string): TextMatch | null {
+  if (matcher === 'regex') {
+    let regexp: RegExp;
+    try {
+      regexp = new RegExp(search, 'i');
+    } catch (e) {
+      return matchText(search, text);
+    }
+    const match = regexp.exec(text);
+    if (match === null)
+      return null;
+    const indices: number[] = [];
+    for (let i = 0; i < match[0].length; i++)
+      indices.push(match.index + i);
+    return { score: 0, indices };
+  }
+
+  const words = Utils.split(search.toLowerCase(),
+    matcher === 'fuzzy' ? /\s+/ : WORD_SEPARATOR);
+  const lowerText = text.toLowerCase();
+  const result: TextMatch = { score: 0, indices: [] };
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]!;
+    if (matcher === 'fuzzy') {
+      const match = fuzzyMatch(word, text);
+      if (match === null)
+        return null;
+      result.score += match.score;
+      result.indices.push(...match.indices);
+      continue;
+    }
+    let index = lowerText.indexOf(word);
+    while (index !== -1 && !(index === 0 ||
+      WORD_SEPARATOR.test(lowerText.charAt(index - 1))))
+      index = lowerText.indexOf(word, index + 1);
+    if (index === -1)
+      return null;
+    for (let j = 0; j < word.length; j++)
+      result.indices.push(index + j);
+  }
+  return result;
+};
+
 export const searchArray = function <T>(opt: SearchOptions<T>): T[] {
-  const split = /[\/?:.\-\s]+/;
-  const search = Utils.split(opt.search.toLowerCase(), split);
   const fn = opt.fn || function(item: T): string { return String(item); };
+  if (opt.matcher === 'fuzzy' || opt.matcher === 'regex') {
+    const matches: [T, number][] = [];
+    opt.array.forEach(function(item: T) {
+      if (item === undefined) return;
+      const match = matchText(opt.search, fn(item), opt.matcher);
+      if (match !== null)
+        matches.push([item, match.score]);
+    });
+    if (opt.matcher === 'fuzzy')
+      matches.sort(function(a, b) { return b[1] - a[1]; });
+    return matches.slice(0, opt.limit).map(function(e) { return e[0]; });
+  }
+  const split = WORD_SEPARATOR;
+  const search = Utils.split(opt.search.toLowerCase(), split);
   const matches: T[] = [];
   eachUntil(opt.array, function(item: T): boolean {
     if (item === undefined) return false;
@@ -352,17 +474,38 @@ export class Trie extends TrieNode {
   }
 }
 
+// Queues the children of parentNode, descending into open shadow roots and
+// the documents of same-origin frames
+const pushChildNodes = function(nodes: Node[], parentNode: Node): void {
+  let node = parentNode.firstChild;
+  while (node !== null) {
+    nodes.push(node);
+    node = node.nextSibling;
+  }
+  if (parentNode.nodeType !== Node.ELEMENT_NODE)
+    return;
+  const shadowRoot = (parentNode as Element).shadowRoot;
+  if (shadowRoot)
+    nodes.push(...Array.from(shadowRoot.childNodes));
+  const localName = (parentNode as Element).localName;
+  if (localName === 'iframe' || localName === 'frame') {
+    let body: HTMLElement | null = null;
+    try {
+      body = (parentNode as HTMLIFrameElement).contentDocument?.body || null;
+    } catch (e) {
+      // cross-origin frames are handled by their own content script
+    }
+    if (body)
+      nodes.push(body);
+  }
+};
+
 export const traverseDOM = function(root: Node, accept: (node: Node) => boolean): Node[] {
   const nodes = [root];
   for (let i = 0; i < nodes.length; i++) {
     const parentNode = nodes[i];
-    if (parentNode) {
-      let node = parentNode.firstChild;
-      while (node !== null) {
-        nodes.push(node);
-        node = node.nextSibling;
-      }
-    }
+    if (parentNode)
+      pushChildNodes(nodes, parentNode);
   }
   nodes.shift();
   return nodes.filter(accept);
@@ -372,13 +515,8 @@ export const mapDOM = function <T>(root: Node, accept: (node: Node) => T | null)
   const nodes = [root];
   for (let i = 0; i < nodes.length; i++) {
     const parentNode = nodes[i];
-    if (parentNode) {
-      let node = parentNode.firstChild;
-      while (node !== null) {
-        nodes.push(node);
-        node = node.nextSibling;
-      }
-    }
+    if (parentNode)
+      pushChildNodes(nodes, parentNode);
   }
   const acceptedValues: T[] = [];
   for (let i = 1; i < nodes.length; i++) {
@@ -434,9 +572,20 @@ export const findFirstOf = function <T>(array: T[], callback: (item: T, index: n
   return null;
 };
 
+// Whether selector can be given to querySelectorAll without throwing
+export const isValidSelector = function(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
 declare global {
   interface Window {
-    parseConfig(value: string): ParseConfigResult;
+    parseConfig(value: string, options?: { [key: string]: any }): ParseConfigResult;
+    lintConfig(value: string, context: LintConfigContext): ConfigDiagnostic[];
   }
 }
 
@@ -458,16 +607,19 @@ window.parseConfig = (function() {
     result.RC = configText;
     return result;
   };
-  return function(value: string): ParseConfigResult {
+  // options (platform, chrome and profile) override the values conditions
+  // in the cVimrc are tested against
+  return function(value: string, options?: { [key: string]: any }): ParseConfigResult {
     try {
       return {
         error: null,
-        value: formatConfig(value, RCParser.parse(value))
+        value: formatConfig(value, RCParser.parse(value, options))
       };
     } catch (e: any) {
       return {
         error: {
-          lineno: e.line,
+          lineno: e.location ? e.location.start.line : 1,
+          column: e.location ? e.location.start.column : 1,
           message: e.message
         },
         value: null
@@ -475,3 +627,309 @@ window.parseConfig = (function() {
     }
   };
 })();
+
+// Reports parse errors and the mistakes the parser accepts silently (unknown
+// settings, unknown mapping targets and duplicate mappings) by line and column
+window.lintConfig = (function() {
+  const objectSettings: { [key: string]: string } = {
+    qmark: 'qmarks',
+    macro: 'macros',
+    searchengine: 'searchengines',
+    searchalias: 'searchaliases'
+  };
+
+  // The first word of a command bar command, without its range or count
+  const commandName = function(value: string): string {
+    return value.replace(/^:/, '').replace(/^[\d.,$%+-]*/, '')
+      .replace(/<CR>$/i, '').split(/[\s!&|]/)[0] || '';
+  };
+
+  // The keys of a mapping, with <...> key names kept whole
+  const splitKeys = function(keys: string): string[] {
+    return keys.match(/<[^>]+>|[\s\S]/g) || [];
+  };
+
+  return function(value: string, context: LintConfigContext): ConfigDiagnostic[] {
+    const parsed = window.parseConfig(value);
+    if (parsed.error !== null) {
+      return [{
+        line: parsed.error.lineno,
+        column: parsed.error.column,
+        severity: 'error',
+        message: parsed.error.message
+      }];
+    }
+
+    const lines = value.split('\n');
+    const diagnostics: ConfigDiagnostic[] = [];
+    const report = function(line: number, column: number,
+      severity: 'error' | 'warning', message: string) {
+      diagnostics.push({ line: line + 1, column: column + 1, severity, message });
+    };
+
+    // Commands, functions and mappings may be defined after the lines using
+    // them. Identifiers read by let expressions are variables, not settings.
+    const variables: string[] = [];
+    const userCommands: string[] = [];
+    const userFunctions: string[] = [];
+    const userKeys: string[] = [];
+    const userInsertKeys: string[] = [];
+    lines.forEach((line) => {
+      let match = line.match(/^\s*command\s+([a-zA-Z]+)/);
+      if (match) {
+        userCommands.push(match[1]!);
+      }
+      match = line.match(/^\s*let\s[^=]*=(.*)$/);
+      if (match) {
+        (match[1]!.replace(/(["'])(?:\\.|(?!\1)[^\\])*\1|g:[\w$]*/g, '')
+          .match(/[a-zA-Z_$][\w$]*/g) || []).forEach((name) => {
+          variables.indexOf(name) === -1 && variables.push(name);
+        });
+      }
+      match = line.match(/^\s*([a-zA-Z_$][\w$]*)\s*(\([^)]*\))?\s*->/);
+      if (match) {
+        userFunctions.push(match[1]!);
+      }
+      match = line.match(/^\s*([invc]?)(map|noremap)\s+(\S+)/);
+      if (match && (match[1] !== 'v' && match[1] !== 'c')) {
+        (match[1] === 'i' ? userInsertKeys : userKeys).push(match[3]!);
+      }
+    });
+    const isCommand = function(target: string): boolean {
+      const name = commandName(target);
+      return userCommands.indexOf(name) !== -1 || context.commands.some((e) => {
+        return e.indexOf(name) === 0;
+      });
+    };
+
+    // The default mappings are inserted before the cVimrc is read, keyed
+    // like the mappings of a scope
+    const defaults: { [key: string]: number } = {};
+    context.keys.forEach((key) => { defaults[' ' + key] = 0; });
+    context.insertKeys.forEach((key) => { defaults['i ' + key] = 0; });
+
+    const scopes: { [key: string]: number }[] = [{}];
+    // Only one branch of an if block applies, so every branch starts from
+    // the mappings before the block and the block leaves those of all its
+    // branches
+    const branches: { before: { [key: string]: number }[]; after: { [key: string]: number }[] }[] = [];
+    const branchScopes = function() {
+      return scopes.length === 1 ? [defaults, scopes[0]!] : [scopes[scopes.length - 1]!];
+    };
+    const resetBranch = function(merge: boolean) {
+      const branch = branches[branches.length - 1]!;
+      branchScopes().forEach((scope, i) => {
+        Object.assign(branch.after[i]!, scope);
+        for (const key in scope) {
+          delete scope[key];
+        }
+        Object.assign(scope, merge ? branch.after[i] : branch.before[i]);
+      });
+    };
+    let inJavaScript = false;
+    lines.forEach((line, index) => {
+      if (inJavaScript) {
+        inJavaScript = line.indexOf('}}') === -1;
+        return;
+      }
+      if (line.indexOf('{{') !== -1) {
+        inJavaScript = line.indexOf('}}', line.indexOf('{{')) === -1;
+        return;
+      }
+      const indent = line.search(/\S/);
+      const statement = line.trim();
+      if (indent === -1 || statement.charAt(0) === '"') {
+        return;
+      }
+      if (/^site\s/.test(statement)) {
+        scopes.push({});
+        return;
+      }
+      if (statement === '}') {
+        scopes.length > 1 && scopes.pop();
+        return;
+      }
+      if (/^if\s/.test(statement)) {
+        branches.push({
+          before: branchScopes().map((scope) => Object.assign({}, scope)),
+          after: branchScopes().map(() => ({}))
+        });
+        return;
+      }
+      if (branches.length && (/^elseif\s/.test(statement) || statement === 'else')) {
+        resetBranch(false);
+        return;
+      }
+      if (branches.length && statement === 'endif') {
+        resetBranch(true);
+        branches.pop();
+        return;
+      }
+      const mappings = scopes[scopes.length - 1]!;
+      const words = statement.split(/\s+/);
+      const keyword = words[0]!;
+      const column = function(word: number): number {
+        let offset = indent;
+        for (let i = 0; i < word; i++) {
+          offset = line.indexOf(words[i + 1]!, offset + words[i]!.length);
+        }
+        return offset;
+      };
+
+      switch (keyword) {
+        case 'set': {
+          let name = words[1]!;
+          if (!context.settings.hasOwnProperty(name) && /^no/.test(name)) {
+            name = name.slice(2);
+          }
+          if (!context.settings.hasOwnProperty(name)) {
+            report(index, column(1), 'warning', 'unknown setting: ' + name);
+          } else if (context.settings[name]!.type !== 'boolean') {
+            report(index, column(1), 'warning',
+              name + ' is not a boolean setting (use let ' + name + ' = ...)');
+          }
+          break;
+        }
+        case 'let': {
+          let name = words[1]!;
+          if (words[2] !== '=' && !/^=/.test(words[2] || '') && !/=/.test(name)) {
+            name = objectSettings[name] || name;
+          } else {
+            name = name.replace(/=.*/, '');
+            if (/^g:/.test(name) || variables.indexOf(name) !== -1) {
+              break;
+            }
+          }
+          if (!context.settings.hasOwnProperty(name)) {
+            report(index, column(1), 'warning', 'unknown setting: ' + words[1]);
+          }
+          break;
+        }
+        case 'source':
+          // Matches the statements the background page expands, the rest
+          // are ignored
+          if (!/^source\s+(?:"[^"]+"|'[^']+'|\S+)\s*$/.test(statement)) {
+            report(index, indent, 'warning', 'source expects one path or URL');
+          }
+          break;
+        case 'unmapAll':
+        case 'iunmapAll':
+          [mappings, scopes.length === 1 ? defaults : {}].forEach((scope) => {
+            for (const key in scope) {
+              if ((key.charAt(0) === 'i') === (keyword === 'iunmapAll')) {
+                delete scope[key];
+              }
+            }
+          });
+          break;
+        case 'unmap':
+        case 'iunmap':
+        case 'vunmap':
+        case 'cunmap':
+          words.slice(1).forEach((key) => {
+            delete mappings[keyword.replace('unmap', '') + ' ' + key];
+            if (scopes.length === 1) {
+              delete defaults[keyword.replace('unmap', '') + ' ' + key];
+            }
+          });
+          break;
+        case 'map':
+        case 'imap':
+        case 'vmap':
+        case 'cmap':
+        case 'noremap':
+        case 'nnoremap':
+        case 'inoremap':
+        case 'vnoremap':
+        case 'cnoremap': {
+          const mode = /^[icv]/.test(keyword) ? keyword.charAt(0) : '';
+          const key = words[1]!;
+          const target = words.slice(2).join(' ').replace(/\s+".*$/, '');
+          if (!target) {
+            report(index, column(1), 'error', 'missing mapping target for ' + key);
+            break;
+          }
+          if (mappings.hasOwnProperty(mode + ' ' + key)) {
+            report(index, column(1), 'warning', 'duplicate mapping for ' + key +
+              ' (first mapped on line ' + mappings[mode + ' ' + key] + ')');
+          }
+          mappings[mode + ' ' + key] = index + 1;
+          // A mapping runs as soon as its keys are typed, so the longer
+          // mappings starting with them can no longer be typed, and the
+          // shorter mappings it starts with are replaced
+          const keys = splitKeys(key);
+          const shadowed: string[] = [];
+          [defaults, scopes[0]!, mappings].forEach((scope) => {
+            for (const name in scope) {
+              if (name.slice(0, name.indexOf(' ')) !== mode) {
+                continue;
+              }
+              const other = splitKeys(name.slice(name.indexOf(' ') + 1));
+              const shorter = other.length < keys.length ? other : keys;
+              if (other.length === keys.length ||
+                !shorter.every((e, i) => e === other[i] && e === keys[i])) {
+                continue;
+              }
+              if (other.length > keys.length) {
+                shadowed.indexOf(other.join('')) === -1 && shadowed.push(other.join(''));
+              } else if (scope === mappings || (scope === defaults && scopes.length === 1)) {
+                delete scope[name];
+              }
+            }
+          });
+          if (shadowed.length) {
+            report(index, column(1), 'warning', key + ' shadows ' +
+              shadowed.slice(0, 5).join(', ') +
+              (shadowed.length > 5 ? ' and ' + (shadowed.length - 5) + ' more' : '') +
+              ', which can no longer be typed');
+          }
+          // Visual mode and command bar keys have no list of targets to
+          // check against
+          if (mode === 'v' || mode === 'c') {
+            break;
+          }
+          if (target.charAt(0) === ':') {
+            if (!isCommand(target)) {
+              report(index, column(2), 'warning',
+                'unknown command: ' + commandName(target));
+            }
+            break;
+          }
+          const action = target.replace(/\(.*/, '').replace(/^\d+(?=\D)/, '');
+          const known = mode === 'i' ?
+            context.insertActions.indexOf(action) !== -1 ||
+              context.insertKeys.concat(userInsertKeys).indexOf(target) !== -1 :
+            context.actions.indexOf(action) !== -1 ||
+              userFunctions.indexOf(action) !== -1 ||
+              context.keys.concat(userKeys).indexOf(target) !== -1;
+          if (!known) {
+            report(index, column(2), 'warning', 'unknown mapping target: ' + target);
+          }
+          break;
+        }
+        case 'hintaccept':
+        case 'hintreject':
+        case 'nextpattern':
+        case 'prevpattern': {
+          const selectors = /(["'])((?:\\.|(?!\1)[^\\])*)\1/g;
+          let match: RegExpExecArray | null;
+          while ((match = selectors.exec(statement)) !== null) {
+            if (!isValidSelector(match[2]!)) {
+              report(index, indent + match.index, 'warning',
+                'invalid CSS selector: ' + match[2]);
+            }
+          }
+          break;
+        }
+        case 'call': {
+          const target = words.slice(1).join(' ');
+          if (target.charAt(0) === ':' && !isCommand(target)) {
+            report(index, column(1), 'warning', 'unknown command: ' + commandName(target));
+          }
+          break;
+        }
+      }
+    });
+    return diagnostics;
+  };
+})();
@@ -30,9 +30,14 @@ declare const Mappings: {
     nextSearchResult(count: number): void;
     previousSearchResult(count: number): void;
   };
+  mapKeys(mode: 'visual', key: string): string[];
+  clearQueue(): void;
 };
 
+declare let insertMode: boolean;
+
 declare const Clipboard: {
+  register: string;
   copy(text: string): void;
   paste(before?: boolean): void;
 };
@@ -76,6 +81,9 @@ interface VisualInterface {
   /** Movement mappings for visual mode navigation */
   movements: { [key: string]: MovementConfig };
 
+  /** The keys handled in visual and caret mode with their descriptions */
+  bindings: [string, string][];
+
   /**
    * Get all text nodes in the document
    * @param callback - Optional callback to execute after getting nodes
@@ -87,6 +95,11 @@ interface VisualInterface {
    */
   exit(): void;
 
+  /**
+   * Leave visual mode for caret mode, or caret mode for normal mode
+   */
+  escape(): void;
+
   /**
    * Focus on search result and enter visual mode
    * @param lineMode - Whether to enter line visual mode
@@ -135,6 +148,12 @@ interface VisualInterface {
    * @param key - The key pressed
    */
   action(key: string): void;
+
+  /**
+   * Perform the visual mode action of a built-in key
+   * @param key - The key to handle
+   */
+  perform(key: string): void;
 }
 
 /**
@@ -190,6 +209,23 @@ export const Visual: VisualInterface = {
     document.body.spellcheck = true;
   },
 
+  /**
+   * Handle <Esc> in visual or caret mode
+   * Visual mode collapses the selection and drops back to caret mode,
+   * caret mode exits to normal mode
+   */
+  escape(): void {
+    Mappings.clearQueue();
+    this.lineMode = false;
+    if (this.visualModeActive === false) {
+      this.exit();
+      insertMode = false;
+      return;
+    }
+    HUD.setMessage(' -- CARET -- ');
+    this.collapse();
+  },
+
   /**
    * Focus on search result and enter visual mode
    * Positions selection at the found text and optionally enters line mode
@@ -385,13 +421,17 @@ export const Visual: VisualInterface = {
 
       case 'p':
       case 'P':
-        Clipboard.copy(this.selection.toString());
+        // "ap opens register a, so the selection must not overwrite it
+        if (!Clipboard.register)
+          Clipboard.copy(this.selection.toString());
         Clipboard.paste(key === 'P');
+        Clipboard.register = '';
         this.exit();
         break;
 
       case 'y':
         Clipboard.copy(this.selection.toString());
+        Clipboard.register = '';
         Visual.collapse();
         break;
 
@@ -420,16 +460,62 @@ export const Visual: VisualInterface = {
     G: ['right', 'documentboundary']
   },
 
+  /**
+   * The keys handled by action() and lineAction(), listed by the cheat sheet
+   */
+  bindings: [
+    ['<Esc>', 'exit visual mode to caret mode/exit caret mode to normal mode'],
+    ['v', 'toggle between visual/caret mode'],
+    ['V', 'toggle visual line mode'],
+    ['h, j, k, l', 'move the caret position/extend the visual selection'],
+    ['w, b', 'move forward/back one word'],
+    ['0, ^, $', 'move to the beginning/end of the line'],
+    ['gg, G', 'move to the beginning/end of the page'],
+    ['y', 'copy the current selection'],
+    ['n, N', 'select the next/previous search result'],
+    ['p, P', 'open the selected text in the current tab/a new tab'],
+    ['"{a-z}', 'use a named register for the next yank/paste ("{A-Z} appends to it)']
+  ],
+
   /**
    * Main action handler for visual mode
-   * Processes key input and performs appropriate visual mode actions
+   * Translates the key through the vmap mappings and performs the visual
+   * mode actions of the keys it maps to
    * @param key - The key pressed
    */
   action(key: string): void {
+    Mappings.mapKeys('visual', key).forEach((key) => {
+      this.perform(key.replace(/^<BS>$/, 'h').replace(/^<Space>$/, 'l'));
+    });
+  },
+
+  /**
+   * Perform the visual mode action of a built-in key
+   * Processes key input and performs appropriate visual mode actions
+   * @param key - The key to handle
+   */
+  perform(key: string): void {
     this.selection = document.getSelection() as ExtendedSelection | null;
     if (!this.selection) return;
 
+    // A `"{register}` prefix selects the register used by y, p and P
+    if (this.queue === '"') {
+      this.queue = '';
+      Clipboard.register = /^[a-zA-Z]$/.test(key) ? key : '';
+      return;
+    }
+
     switch (key) {
+      case '<Esc>':
+      case '<C-[>':
+        this.queue = '';
+        this.escape();
+        return;
+
+      case '"':
+        this.queue = '"';
+        return;
+
       case 'g':
         if (!this.queue.length) {
           this.queue += 'g';
@@ -501,15 +587,18 @@ export const Visual: VisualInterface = {
 
       case 'p':
       case 'P':
-        Clipboard.copy(this.selection.toString());
+        if (!Clipboard.register)
+          Clipboard.copy(this.selection.toString());
         this.selection.collapseToEnd();
         Clipboard.paste(key === 'P');
+        Clipboard.register = '';
         this.exit();
         break;
 
       case 'y':
         if (movementType === 'extend') {
           Clipboard.copy(this.selection.toString());
+          Clipboard.register = '';
           Visual.collapse();
         }
         break;
@@ -0,0 +1,135 @@
+// The which-key popup lists the mappings that can follow a pending prefix
+// such as `g` or `<Leader>`. It appears once the prefix has been pending for
+// `whichkeydelay` milliseconds and narrows as more keys are typed.
+
+import type { TrieNode } from './utils.js';
+
+declare const settings: any;
+
+declare const Command: {
+  onBottom?: boolean;
+  descriptions: [string, string][];
+};
+
+declare const Mappings: {
+  descriptions: { [target: string]: string };
+  listMappings(node?: TrieNode): [string, string][];
+};
+
+// The keys that complete a mapping and the target they run
+export type WhichKeyEntry = [string, string];
+
+interface WhichKeyInterface {
+  element: HTMLDivElement | null;
+  timeout: number;
+
+  update(node: TrieNode, prefix: string): void;
+  hide(): void;
+  continuations(node: TrieNode): WhichKeyEntry[];
+  describe(target: string): string;
+  render(node: TrieNode, prefix: string): void;
+}
+
+export const WhichKey: WhichKeyInterface = {
+  element: null,
+  timeout: 0,
+
+  // Called with the trie node reached by the pending keys. The popup is
+  // redrawn at once when it is already open.
+  update(node: TrieNode, prefix: string): void {
+    window.clearTimeout(this.timeout);
+    if (!settings.whichkey || window.isCommandFrame) {
+      return;
+    }
+    if (this.element) {
+      this.render(node, prefix);
+      return;
+    }
+    this.timeout = window.setTimeout(() => {
+      this.render(node, prefix);
+    }, settings.whichkeydelay);
+  },
+
+  hide(): void {
+    window.clearTimeout(this.timeout);
+    if (this.element) {
+      this.element.remove();
+      this.element = null;
+    }
+  },
+
+  // Every mapping below node with the keys left to type, sorted by keys
+  continuations(node: TrieNode): WhichKeyEntry[] {
+    return Mappings.listMappings(node).sort((a, b) => {
+      return a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+    });
+  },
+
+  // The description of an action or ex-command, '' for mappings to other
+  // keys and user commands
+  describe(target: string): string {
+    const command = target.match(/^:(\w+)/);
+    if (command) {
+      const description = Command.descriptions.find((e) => e[0] === command[1]);
+      return description ? description[1] : '';
+    }
+    return Mappings.descriptions[target.replace(/^\d+/, '').replace(/\(.*\)$/, '')] || '';
+  },
+
+  render(node: TrieNode, prefix: string): void {
+    const entries = this.continuations(node);
+    if (!entries.length) {
+      this.hide();
+      return;
+    }
+    if (!this.element) {
+      this.element = document.createElement('div');
+      this.element.id = 'cVim-which-key';
+      if (Command.onBottom) {
+        this.element.style.bottom = 'initial';
+        this.element.style.top = '0';
+      }
+      (document.documentElement.lastElementChild || document.documentElement)
+        .appendChild(this.element);
+    }
+    this.element.textContent = '';
+
+    const header = document.createElement('div');
+    header.className = 'cVim-which-key-prefix';
+    header.textContent = prefix;
+    this.element.appendChild(header);
+
+    const list = document.createElement('div');
+    list.className = 'cVim-which-key-list';
+    entries.forEach((entry) => {
+      const item = document.createElement('div');
+      item.className = 'cVim-which-key-item';
+      const keys = document.createElement('span');
+      keys.className = 'cVim-which-key-keys';
+      keys.textContent = entry[0];
+      const target = document.createElement('span');
+      target.className = 'cVim-which-key-target';
+      target.textContent = entry[1];
+      item.appendChild(keys);
+      item.appendChild(target);
+      const description = this.describe(entry[1]);
+      if (description) {
+        const span = document.createElement('span');
+        span.className = 'cVim-which-key-description';
+        span.textContent = description;
+        item.appendChild(span);
+      }
+      list.appendChild(item);
+    });
+    this.element.appendChild(list);
+  }
+};
+
+declare global {
+  interface Window {
+    WhichKey: WhichKeyInterface;
+    isCommandFrame?: boolean;
+  }
+}
+
+window.WhichKey = WhichKey;
@@ -0,0 +1,602 @@
+// Converters from the configuration files of other Vim-like extensions to
+// cVimrc. Each converter translates what it can and reports the lines it
+// could not translate, with the reason.
+
+export type ImportSource = 'vimium' | 'tridactyl' | 'surfingkeys';
+
+export interface ImportSkippedLine {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  rc: string;
+  skipped: ImportSkippedLine[];
+}
+
+interface ImportState {
+  lines: string[];
+  skipped: ImportSkippedLine[];
+}
+
+// Vimium command names, mapped to cVim actions or command bar commands
+const VIMIUM_COMMANDS: { [command: string]: string } = {
+  'scrollDown': 'scrollDown',
+  'scrollUp': 'scrollUp',
+  'scrollLeft': 'scrollLeft',
+  'scrollRight': 'scrollRight',
+  'scrollToTop': 'scrollToTop',
+  'scrollToBottom': 'scrollToBottom',
+  'scrollToLeft': 'scrollToLeft',
+  'scrollToRight': 'scrollToRight',
+  'scrollPageDown': 'scrollPageDown',
+  'scrollPageUp': 'scrollPageUp',
+  'scrollFullPageDown': 'scrollFullPageDown',
+  'scrollFullPageUp': 'scrollFullPageUp',
+  'reload': 'reloadTab',
+  'copyCurrentUrl': 'yankDocumentUrl',
+  'openCopiedUrlInCurrentTab': 'openPaste',
+  'openCopiedUrlInNewTab': 'openPasteTab',
+  'goUp': 'goUpUrl',
+  'goToRoot': 'goToRootUrl',
+  'enterInsertMode': 'insertMode',
+  'enterVisualMode': 'toggleVisualMode',
+  'enterVisualLineMode': 'toggleVisualLineMode',
+  'passNextKey': 'passKeys',
+  'focusInput': 'goToInput',
+  'LinkHints.activateMode': 'createHint',
+  'LinkHints.activateModeToOpenInNewTab': 'createTabbedHint',
+  'LinkHints.activateModeToOpenInNewForegroundTab': 'createActiveTabbedHint',
+  'LinkHints.activateModeWithQueue': 'createMultiHint',
+  'LinkHints.activateModeToCopyLinkUrl': 'yankUrl',
+  'enterFindMode': 'openSearchBar',
+  'performFind': 'nextSearchResult',
+  'performBackwardsFind': 'previousSearchResult',
+  'goPrevious': 'previousMatchPattern',
+  'goNext': 'nextMatchPattern',
+  'nextFrame': 'nextFrame',
+  'mainFrame': 'rootFrame',
+  'Marks.activateCreateMode': 'setMark',
+  'Marks.activateGotoMode': 'goToMark',
+  'goBack': 'goBack',
+  'goForward': 'goForward',
+  'previousTab': 'previousTab',
+  'nextTab': 'nextTab',
+  'visitPreviousTab': 'lastUsedTab',
+  'firstTab': 'firstTab',
+  'lastTab': 'lastTab',
+  'createTab': ':tabnew<CR>',
+  'duplicateTab': ':duplicate<CR>',
+  'removeTab': 'closeTab',
+  'restoreTab': 'lastClosedTab',
+  'moveTabLeft': 'moveTabLeft',
+  'moveTabRight': 'moveTabRight',
+  'togglePinTab': 'pinTab',
+  'toggleMuteTab': 'muteTab',
+  'closeTabsOnLeft': 'closeTabsToLeft',
+  'closeTabsOnRight': 'closeTabsToRight',
+  'Vomnibar.activate': ':open<Space>',
+  'Vomnibar.activateInNewTab': ':tabnew<Space>',
+  'Vomnibar.activateTabSelection': ':buffer<Space>',
+  'Vomnibar.activateBookmarks': ':bookmarks<Space>',
+  'Vomnibar.activateEditUrl': ':open @%',
+  'Vomnibar.activateEditUrlInNewTab': ':tabnew @%',
+  'toggleViewSource': ':viewsource!<CR>',
+  'showHelp': ':help<CR>'
+};
+
+// Tridactyl ex-commands (with their arguments), mapped to cVim actions or
+// command bar commands
+const TRIDACTYL_COMMANDS: { [command: string]: string } = {
+  'scrollto 0': 'scrollToTop',
+  'scrollto 100': 'scrollToBottom',
+  'scrollto 0 x': 'scrollToLeft',
+  'scrollto 100 x': 'scrollToRight',
+  'back': 'goBack',
+  'forward': 'goForward',
+  'reload': 'reloadTab',
+  'reloadhard': 'reloadTabUncached',
+  'reloadall': 'reloadAllTabs',
+  'stop': ':stop<CR>',
+  'tabnext': 'nextTab',
+  'tabprev': 'previousTab',
+  'tabfirst': 'firstTab',
+  'tablast': 'lastTab',
+  'tab #': 'lastUsedTab',
+  'tabclose': 'closeTab',
+  'undo': 'lastClosedTab',
+  'undo tab': 'lastClosedTab',
+  'tabmove -1': 'moveTabLeft',
+  'tabmove +1': 'moveTabRight',
+  'tabduplicate': ':duplicate<CR>',
+  'pin': 'pinTab',
+  'mute toggle': 'muteTab',
+  'hint': 'createHint',
+  'hint -b': 'createTabbedHint',
+  'hint -t': 'createActiveTabbedHint',
+  'hint -qb': 'createMultiHint',
+  'hint -y': 'yankUrl',
+  'hint -i': 'fullImageHint',
+  'hint -W mpvsafe': 'createHintWindow',
+  'fillcmdline': 'openCommandBar',
+  'fillcmdline open': ':open<Space>',
+  'fillcmdline tabopen': ':tabnew<Space>',
+  'fillcmdline taball': ':buffer<Space>',
+  'fillcmdline tab': ':buffer<Space>',
+  'fillcmdline bmarks': ':bookmarks<Space>',
+  'fillcmdline find': 'openSearchBar',
+  'fillcmdline find -?': 'openSearchBarReverse',
+  'current_url open': ':open @%',
+  'current_url tabopen': ':tabnew @%',
+  'clipboard yank': 'yankDocumentUrl',
+  'clipboard open': 'openPaste',
+  'clipboard tabopen': 'openPasteTab',
+  'urlparent': 'goUpUrl',
+  'urlroot': 'goToRootUrl',
+  'urlincrement 1': 'incrementURLPath',
+  'urlincrement -1': 'decrementURLPath',
+  'findnext 1': 'nextSearchResult',
+  'findnext -1': 'previousSearchResult',
+  'nohlsearch': ':nohlsearch<CR>',
+  'followpage prev': 'previousMatchPattern',
+  'followpage next': 'nextMatchPattern',
+  'focusinput -l': 'goToInput',
+  'mode insert': 'insertMode',
+  'mode visual': 'toggleVisualMode',
+  'zoom 0.1 true': 'zoomPageIn',
+  'zoom -0.1 true': 'zoomPageOut',
+  'zoom 1': 'zoomOrig',
+  'viewsource': ':viewsource!<CR>',
+  'help': ':help<CR>',
+  'gobble 1 markadd': 'setMark',
+  'gobble 1 markjump': 'goToMark'
+};
+
+// Tridactyl commands taking a signed amount, converted by its direction
+const TRIDACTYL_SCROLL_COMMANDS: { [command: string]: [string, string] } = {
+  'scrollline': ['scrollDown', 'scrollUp'],
+  'scrollpx': ['scrollRight', 'scrollLeft'],
+  'scrollpage': ['scrollPageDown', 'scrollPageUp']
+};
+
+// Tridactyl settings with a cVim equivalent
+const TRIDACTYL_SETTINGS: { [name: string]: string } = {
+  'hintchars': 'hintcharacters',
+  'searchengine': 'defaultengine',
+  'smoothscroll': 'smoothscroll',
+  'incsearch': 'incsearch',
+  'findcase': 'ignorecase'
+};
+
+// Surfingkeys default keys, mapped to the cVim actions or command bar
+// commands they run
+const SURFINGKEYS_KEYS: { [key: string]: string } = {
+  'j': 'scrollDown',
+  'k': 'scrollUp',
+  'h': 'scrollLeft',
+  'l': 'scrollRight',
+  'd': 'scrollPageDown',
+  'e': 'scrollPageUp',
+  'gg': 'scrollToTop',
+  'G': 'scrollToBottom',
+  '0': 'scrollToLeft',
+  '$': 'scrollToRight',
+  'f': 'createHint',
+  'af': 'createActiveTabbedHint',
+  'gf': 'createTabbedHint',
+  'cf': 'createMultiHint',
+  'ya': 'yankUrl',
+  'yy': 'yankDocumentUrl',
+  'cc': 'openPaste',
+  'E': 'previousTab',
+  'R': 'nextTab',
+  'g0': 'firstTab',
+  'g$': 'lastTab',
+  '<<': 'moveTabLeft',
+  '>>': 'moveTabRight',
+  'x': 'closeTab',
+  'X': 'lastClosedTab',
+  'S': 'goBack',
+  'D': 'goForward',
+  'r': 'reloadTab',
+  'o': ':open<Space>',
+  't': ':tabnew<Space>',
+  'b': ':bookmarks<Space>',
+  'T': ':buffer<Space>',
+  'on': ':tabnew<CR>',
+  'yt': ':duplicate<CR>',
+  'gs': ':viewsource!<CR>',
+  '?': ':help<CR>',
+  'i': 'goToInput',
+  '/': 'openSearchBar',
+  'n': 'nextSearchResult',
+  'N': 'previousSearchResult',
+  'v': 'toggleVisualMode',
+  ':': 'openCommandBar',
+  'gu': 'goUpUrl',
+  'gU': 'goToRootUrl',
+  '[[': 'previousMatchPattern',
+  ']]': 'nextMatchPattern',
+  'zi': 'zoomPageIn',
+  'zo': 'zoomPageOut',
+  'zr': 'zoomOrig',
+  '<Alt-p>': 'pinTab',
+  '<Alt-m>': 'muteTab',
+  '.': 'repeatCommand'
+};
+
+// Surfingkeys settings with a cVim equivalent
+const SURFINGKEYS_SETTINGS: { [name: string]: string } = {
+  'hintAlphabet': 'hintcharacters',
+  'smoothScroll': 'smoothscroll',
+  'scrollStepSize': 'scrollstep',
+  'omnibarMaxResults': 'searchlimit',
+  'defaultSearchEngine': 'defaultengine',
+  'showTabIndices': 'showtabindices'
+};
+
+const KEY_MODIFIERS: { [name: string]: string } = {
+  c: 'C', ctrl: 'C', a: 'A', alt: 'A', m: 'M', meta: 'M', s: 'S', shift: 'S'
+};
+
+// Convert <c-x>, <Ctrl-x> and friends to the <C-x> notation of cVim
+const convertKey = function(key: string): string {
+  return key.replace(/<([^<>]+)>/g, (_, name: string) => {
+    const parts = name.split('-');
+    const base = parts.pop() || '-';
+    const modifiers = parts.map((e) => KEY_MODIFIERS[e.toLowerCase()] || e);
+    const named = base.length > 1 ?
+      (/^(cr|bs)$/i.test(base) ? base.toUpperCase() :
+        base.charAt(0).toUpperCase() + base.slice(1).toLowerCase()) : base;
+    return '<' + modifiers.concat(named).join('-') + '>';
+  });
+};
+
+const quote = function(value: string): string {
+  return '"' + value.replace(/["\\]/g, '\\$&') + '"';
+};
+
+const searchEngineUrl = function(url: string): string {
+  return url.indexOf('%s') === -1 ? url + '%s' : url;
+};
+
+const isIdentifier = function(name: string): boolean {
+  return /^[a-zA-Z_$][a-zA-Z_$0-9]*$/.test(name);
+};
+
+const addSearchEngine = function(state: ImportState, index: number, text: string,
+  name: string, url: string, alias?: string) {
+  if (!isIdentifier(name)) {
+    state.skipped.push({ line: index + 1, text, reason: 'search engine names must be identifiers' });
+    return;
+  }
+  state.lines.push('let searchengine ' + name + ' = ' + quote(searchEngineUrl(url)));
+  if (alias && alias !== name) {
+    if (isIdentifier(alias)) {
+      state.lines.push('let searchalias ' + alias + ' = ' + quote(name));
+    } else {
+      state.skipped.push({ line: index + 1, text, reason: 'search aliases must be identifiers' });
+    }
+  }
+};
+
+const parseValue = function(value: string): string | number | boolean {
+  if (/^(true|false)$/.test(value)) {
+    return value === 'true';
+  }
+  return /^\d+(\.\d+)?$/.test(value) ? +value : value;
+};
+
+const addSetting = function(state: ImportState, name: string, value: string | number | boolean) {
+  if (typeof value === 'boolean') {
+    state.lines.push('set ' + (value ? '' : 'no') + name);
+  } else {
+    state.lines.push('let ' + name + ' = ' +
+      (typeof value === 'number' ? value : quote(value)));
+  }
+};
+
+// Vimium key mappings (map, unmap, unmapAll) and custom search engines
+// (keyword: url description)
+const convertVimium = function(text: string, state: ImportState) {
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || /^["#]/.test(trimmed)) {
+      return;
+    }
+    const skip = (reason: string) => {
+      state.skipped.push({ line: index + 1, text: line, reason });
+    };
+    const words = trimmed.split(/\s+/);
+    switch (words[0]) {
+      case 'unmapAll':
+        state.lines.push('unmapAll');
+        return;
+      case 'unmap':
+        if (words.length < 2) {
+          return skip('missing key');
+        }
+        state.lines.push('unmap ' + convertKey(words[1]!));
+        return;
+      case 'map': {
+        if (words.length < 3) {
+          return skip('missing key or command');
+        }
+        const options = words.slice(3);
+        let action = VIMIUM_COMMANDS[words[2]!];
+        if (words[2] === 'reload' && options.join(' ') === 'hard') {
+          action = 'reloadTabUncached';
+        } else if (action && options.length) {
+          return skip('command options are not supported');
+        }
+        if (!action) {
+          return skip('no cVim equivalent for ' + words[2]);
+        }
+        state.lines.push('map ' + convertKey(words[1]!) + ' ' + action);
+        return;
+      }
+    }
+    const engine = trimmed.match(/^([^:\s]+):\s*(\S+)/);
+    if (engine) {
+      addSearchEngine(state, index, line, engine[1]!, engine[2]!);
+      return;
+    }
+    skip('unknown statement');
+  });
+};
+
+const convertTridactylCommand = function(command: string): string | null {
+  if (TRIDACTYL_COMMANDS.hasOwnProperty(command)) {
+    return TRIDACTYL_COMMANDS[command]!;
+  }
+  const words = command.split(' ');
+  const scroll = TRIDACTYL_SCROLL_COMMANDS[words[0]!];
+  if (scroll && words.length === 2 && !isNaN(+words[1]!)) {
+    if (words[0] === 'scrollpage' && Math.abs(+words[1]!) >= 1) {
+      return +words[1]! > 0 ? 'scrollFullPageDown' : 'scrollFullPageUp';
+    }
+    return +words[1]! > 0 ? scroll[0] : scroll[1];
+  }
+  return null;
+};
+
+// A tridactylrc: bind, unbind, set and comments
+const convertTridactyl = function(text: string, state: ImportState) {
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.charAt(0) === '"') {
+      return;
+    }
+    const skip = (reason: string) => {
+      state.skipped.push({ line: index + 1, text: line, reason });
+    };
+    const words = trimmed.split(/\s+/);
+    let mode = '';
+    if (/^--mode=/.test(words[1] || '')) {
+      mode = words.splice(1, 1)[0]!.replace('--mode=', '');
+    }
+    if (mode && mode !== 'normal') {
+      return skip(mode + ' mode bindings are not supported');
+    }
+    switch (words[0]) {
+      case 'bind': {
+        if (words.length < 3) {
+          return skip('missing key or command');
+        }
+        if (/^--/.test(words[1]!)) {
+          return skip('bind options are not supported');
+        }
+        const action = convertTridactylCommand(words.slice(2).join(' '));
+        if (action === null) {
+          return skip('no cVim equivalent for ' + words.slice(2).join(' '));
+        }
+        state.lines.push('map ' + convertKey(words[1]!) + ' ' + action);
+        return;
+      }
+      case 'unbind':
+        if (words.length < 2) {
+          return skip('missing key');
+        }
+        state.lines.push('unmap ' + convertKey(words[1]!));
+        return;
+      case 'set': {
+        const name = words[1] || '';
+        const value = words.slice(2).join(' ');
+        if (!value) {
+          return skip('missing value');
+        }
+        const engine = name.match(/^searchurls\.(.+)$/);
+        if (engine) {
+          addSearchEngine(state, index, line, engine[1]!, value);
+          return;
+        }
+        if (!TRIDACTYL_SETTINGS[name]) {
+          return skip('no cVim equivalent for the ' + name + ' setting');
+        }
+        if (name === 'findcase') {
+          if (value === 'smart') {
+            state.lines.push('set smartcase');
+          } else {
+            state.lines.push(value === 'sensitive' ? 'set noignorecase' : 'set ignorecase');
+          }
+          return;
+        }
+        addSetting(state, TRIDACTYL_SETTINGS[name]!, parseValue(value));
+        return;
+      }
+    }
+    skip('unsupported command ' + words[0]);
+  });
+};
+
+// Split JavaScript into top-level statements, returning each with the line
+// it starts on. Strings and comments are accounted for well enough for
+// settings files.
+const splitStatements = function(text: string): [number, string][] {
+  const statements: [number, string][] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  let current = '';
+  let line = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charAt(i);
+    if (!current.trim()) {
+      start = line;
+    }
+    if (c === '\n') {
+      line++;
+    }
+    if (quote) {
+      current += c;
+      if (c === '\\') {
+        current += text.charAt(++i);
+      } else if (c === quote) {
+        quote = '';
+      }
+      continue;
+    }
+    if (c === '/' && text.charAt(i + 1) === '/') {
+      while (i + 1 < text.length && text.charAt(i + 1) !== '\n') {
+        i++;
+      }
+      continue;
+    }
+    if (c === '/' && text.charAt(i + 1) === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const comment = text.slice(i, end === -1 ? text.length : end + 2);
+      line += comment.split('\n').length - 1;
+      i += comment.length - 1;
+      continue;
+    }
+    if (c === '"' || c === '\'' || c === '`') {
+      quote = c;
+    } else if ('([{'.indexOf(c) !== -1) {
+      depth++;
+    } else if (')]}'.indexOf(c) !== -1) {
+      depth--;
+    }
+    if (depth <= 0 && (c === ';' || c === '\n')) {
+      if (current.trim()) {
+        statements.push([start, current.trim()]);
+      }
+      current = '';
+      depth = 0;
+      continue;
+    }
+    current += c;
+  }
+  if (current.trim()) {
+    statements.push([start, current.trim()]);
+  }
+  return statements;
+};
+
+// Arguments of a call that are all string or number literals
+const parseArguments = function(args: string): string[] | null {
+  const result: string[] = [];
+  const literal = /^\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?))\s*(,|$)/;
+  let rest = args;
+  while (rest.trim()) {
+    const match = rest.match(literal);
+    if (!match) {
+      return null;
+    }
+    const value = match[1] ?? match[2] ?? match[3]!;
+    result.push(value.replace(/\\(.)/g, '$1'));
+    rest = rest.slice(match[0].length);
+  }
+  return result;
+};
+
+// A Surfingkeys settings file: map, unmap, iunmap, addSearchAlias and
+// settings assignments
+const convertSurfingkeys = function(text: string, state: ImportState) {
+  splitStatements(text).forEach(([index, statement]) => {
+    const line = statement.split('\n')[0]!;
+    const skip = (reason: string) => {
+      state.skipped.push({ line: index + 1, text: line, reason });
+    };
+    if (/^(const|let|var)\s*\{[^}]*\}\s*=\s*api$/.test(statement)) {
+      return;
+    }
+    const assignment = statement.match(/^settings\.(\w+)\s*=\s*([\s\S]+)$/);
+    if (assignment) {
+      const name = SURFINGKEYS_SETTINGS[assignment[1]!];
+      if (!name) {
+        return skip('no cVim equivalent for the ' + assignment[1] + ' setting');
+      }
+      const value = assignment[2]!.trim();
+      const string = parseArguments(value);
+      if (/^(true|false|\d+(\.\d+)?)$/.test(value)) {
+        addSetting(state, name, parseValue(value));
+      } else if (string && string.length === 1 && /^["']/.test(value)) {
+        addSetting(state, name, string[0]!);
+      } else {
+        skip('only literal values can be converted');
+      }
+      return;
+    }
+    const call = statement.match(/^(?:api\.)?(\w+)\s*\(([\s\S]*)\)$/);
+    if (!call) {
+      return skip('unknown statement');
+    }
+    if (/^[iv]?mapkey$/.test(call[1]!)) {
+      return skip('mappings to JavaScript functions cannot be converted');
+    }
+    const args = parseArguments(call[2]!);
+    if (args === null) {
+      return skip('only calls with literal arguments can be converted');
+    }
+    switch (call[1]) {
+      case 'map': {
+        if (args.length < 2) {
+          return skip('missing key');
+        }
+        const action = SURFINGKEYS_KEYS[args[1]!];
+        if (!action) {
+          return skip('no cVim equivalent for the Surfingkeys key ' + args[1]);
+        }
+        state.lines.push('map ' + convertKey(args[0]!) + ' ' + action);
+        return;
+      }
+      case 'unmap':
+      case 'iunmap':
+        if (!args.length) {
+          return skip('missing key');
+        }
+        state.lines.push(call[1] + ' ' + convertKey(args[0]!));
+        return;
+      case 'addSearchAlias':
+        if (args.length < 3) {
+          return skip('missing search engine URL');
+        }
+        addSearchEngine(state, index, line, args[1]!, args[2]!, args[0]);
+        return;
+    }
+    skip('no cVim equivalent for ' + call[1]);
+  });
+};
+
+const CONVERTERS: { [source in ImportSource]: (text: string, state: ImportState) => void } = {
+  vimium: convertVimium,
+  tridactyl: convertTridactyl,
+  surfingkeys: convertSurfingkeys
+};
+
+const SOURCE_NAMES: { [source in ImportSource]: string } = {
+  vimium: 'Vimium',
+  tridactyl: 'Tridactyl',
+  surfingkeys: 'Surfingkeys'
+};
+
+export const convertConfig = function(source: ImportSource, text: string): ImportResult {
+  const state: ImportState = { lines: [], skipped: [] };
+  CONVERTERS[source](text.replace(/\r\n?/g, '\n'), state);
+  return {
+    rc: state.lines.length ?
+      '" Imported from ' + SOURCE_NAMES[source] + '\n' + state.lines.join('\n') + '\n' : '',
+    skipped: state.skipped
+  };
+};
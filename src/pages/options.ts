@@ -1,11 +1,13 @@
 /// <reference types="chrome" />
 
+import { convertConfig, ImportSource } from './import';
+
 // Global type augmentations need export for module context
 export { };
 
 declare global {
   interface Window {
-    parseConfig(value: string): ParseConfigResult;
+    parseConfig(value: string, options?: { profile?: string }): ParseConfigResult;
   }
 
   interface ObjectConstructor {
@@ -26,6 +28,9 @@ declare const Utils: {
   split(string: string, pattern: string | RegExp): string[];
   trim(string: string): string;
 };
+declare const Command: {
+  checkConfig(value: string): ConfigDiagnostic[];
+};
 
 // CodeMirror type definitions
 declare const CodeMirror: {
@@ -35,27 +40,68 @@ declare const CodeMirror: {
 interface CodeMirrorOptions {
   lineNumbers?: boolean;
   keyMap?: string;
+  gutters?: string[];
+  viewportMargin?: number;
+}
+
+interface CodeMirrorPosition {
+  line: number;
+  ch: number;
+}
+
+interface CodeMirrorTextMarker {
+  clear(): void;
 }
 
 interface CodeMirrorEditor {
   setValue(value: string): void;
   getValue(): string;
   setOption(option: string, value: any): void;
+  getLine(line: number): string | undefined;
+  on(event: string, handler: () => void): void;
+  setGutterMarker(line: number, gutter: string, element: HTMLElement | null): void;
+  clearGutter(gutter: string): void;
+  markText(from: CodeMirrorPosition, to: CodeMirrorPosition,
+    options: { className: string; title?: string }): CodeMirrorTextMarker;
 }
 
 // Configuration and settings interfaces
 interface ParseConfigResult {
   error: {
     lineno: number;
+    column: number;
     message: string;
+    file?: string;
   } | null;
   value: any;
 }
 
+interface SourcedFile {
+  url: string;
+  parent: string;
+  line: number;
+  status: 'loaded' | 'cached' | 'error';
+  error?: string;
+}
+
+interface ExpandedConfig {
+  text: string;
+  origins: [string, number][];
+  files: SourcedFile[];
+}
+
+interface ConfigDiagnostic {
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
 interface ConfigObject {
   RC: string;
   COMMANDBARCSS: string;
   GISTURL: string;
+  PROFILE?: string;
   localconfig?: boolean;
   configpath?: string;
   homedirectory?: string;
@@ -83,56 +129,125 @@ interface LoadConfigResponse {
   code: number;
   error?: {
     lineno: number;
+    column: number;
     message: string;
+    file?: string;
   };
 }
 
 // Settings class definition
 class SettingsManager {
   public initialLoad: boolean = true;
-  public rcEl!: HTMLTextAreaElement;
+  public rcEl!: CodeMirrorEditor;
+  public rcMarks: CodeMirrorTextMarker[] = [];
+  public lintTimeout: number = 0;
   public cssEl!: CodeMirrorEditor;
   public saveButton!: HTMLInputElement;
   public editModeEl!: HTMLSelectElement;
   public gistUrl!: HTMLInputElement;
+  public profileEl!: HTMLInputElement;
   public gistPlaceHolder!: string;
   public settings!: ConfigObject;
 
   loadrc(config: ConfigObject): void {
-    this.rcEl.value = config.RC;
-    this.rcEl.style.height = this.rcEl.scrollHeight + 'px';
+    this.rcEl.setValue(config.RC);
+    this.lintrc();
     if (this.cssEl) {
       this.cssEl.setValue(config.COMMANDBARCSS);
     }
     this.gistUrl.value = config.GISTURL;
+    this.profileEl.value = config.PROFILE || '';
   }
 
   resetSettings(): void {
     if (confirm('Reset all configuration and CSS settings to their default values?')) {
       RUNTIME('getDefaults', (defaults: ConfigObject) => {
-        this.rcEl.value = defaults.RC;
+        this.rcEl.setValue(defaults.RC);
         this.cssEl.setValue(defaults.COMMANDBARCSS);
         this.gistUrl.value = defaults.GISTURL;
+        this.profileEl.value = '';
         this.settings = Object.clone(defaults);
       });
     }
   }
 
+  // Mark the lines of the cVimrc with errors and warnings in the gutter,
+  // underlining the text from the reported column
+  lintrc(): ConfigDiagnostic[] {
+    const diagnostics = Command.checkConfig(this.rcEl.getValue());
+    this.rcEl.clearGutter('cvimrc-lint');
+    this.rcMarks.forEach((mark) => mark.clear());
+    this.rcMarks = diagnostics.map((diagnostic) => {
+      const line = diagnostic.line - 1;
+      const message = diagnostic.column + ': ' + diagnostic.message;
+      const marker = document.createElement('div');
+      marker.className = 'cvimrc-lint-marker cvimrc-lint-' + diagnostic.severity;
+      marker.textContent = diagnostic.severity === 'error' ? '\u2716' : '\u26a0';
+      marker.title = message;
+      this.rcEl.setGutterMarker(line, 'cvimrc-lint', marker);
+      return this.rcEl.markText(
+        { line: line, ch: diagnostic.column - 1 },
+        { line: line, ch: (this.rcEl.getLine(line) || '').length },
+        { className: 'cvimrc-lint-' + diagnostic.severity, title: message });
+    });
+    return diagnostics;
+  }
+
+  // The files of `source` statements are spliced in by the background page
+  // before parsing, parse errors are reported against the file they are in
   saveSettings(): void {
+    this.lintrc();
+    const rc = this.rcEl.getValue();
+    RUNTIME('expandSources', { config: rc }, (expanded: ExpandedConfig) => {
+      const unread = expanded.files.filter((file) => file.status !== 'loaded');
+      if (unread.length) {
+        alert('cVim: sourced files could not be read:\n' + unread.map((file) => {
+          return file.url + ' (line ' + file.line + ' of ' + (file.parent || 'config') +
+            '): ' + file.error + (file.status === 'cached' ? ', using the last good copy' : '');
+        }).join('\n'));
+      }
+      const res = window.parseConfig(expanded.text, { profile: this.profileEl.value });
+      if (res.error !== null) {
+        const origin = expanded.origins[res.error.lineno - 1];
+        if (origin) {
+          res.error.file = origin[0];
+          res.error.lineno = origin[1];
+        }
+        this.storeSettings(res);
+        return;
+      }
+      // Name the file, line and site block of every mapping for :verbose map
+      RUNTIME('locateMappings', { expanded: expanded, settings: res.value }, (config: any) => {
+        res.value = config;
+        res.value.RC = rc;
+        RUNTIME('checkConfig', { settings: res.value }, (errors: string[]) => {
+          if (errors.length) {
+            alert('invalid settings in config:\n' + errors.join('\n'));
+            return;
+          }
+          this.storeSettings(res);
+        });
+      });
+    });
+  }
+
+  storeSettings(res: ParseConfigResult): void {
     RUNTIME('getDefaults', (defaults: ConfigObject) => {
       const hadLocalConfigSet = !!this.settings.localconfig;
       const lastConfigPath = this.settings.configpath;
       this.settings = defaults;
-      const res = window.parseConfig(this.rcEl.value);
       if (res.error !== null) {
-        console.error('Line %d: %s', res.error.lineno, res.error.message);
-        alert('parse error on line ' + res.error.lineno +
-          ' of config (see console for more info)');
+        console.error('Line %d, column %d: %s', res.error.lineno,
+          res.error.column, res.error.message);
+        alert('parse error on line ' + res.error.lineno + ', column ' +
+          res.error.column + ' of ' + (res.error.file || 'config') +
+          ' (see console for more info)');
       } else {
         Object.merge(this.settings, res.value);
       }
       this.settings.COMMANDBARCSS = this.cssEl.getValue();
       this.settings.GISTURL = this.gistUrl.value;
+      this.settings.PROFILE = this.profileEl.value;
       this.settings.mapleader = this.settings.mapleader?.replace(/ /g, '<Space>') || '';
       if (hadLocalConfigSet && this.settings.localconfig && this.settings.configpath &&
         lastConfigPath === this.settings.configpath) {
@@ -142,7 +257,8 @@ class SettingsManager {
       chrome.runtime.sendMessage({
         action: 'saveSettings',
         settings: this.settings,
-        sendSettings: true
+        sendSettings: true,
+        replace: true
       } as ChromeMessage);
       setTimeout(() => {
         this.saveButton.value = 'Save';
@@ -150,12 +266,84 @@ class SettingsManager {
     });
   }
 
+  // Show the differences between the saved cVimrc and one generated from the
+  // runtime settings by :mkcvimrc!, replacing the cVimrc once confirmed
+  previewrc(rc: string): void {
+    const preview = document.getElementById('rc_preview') as HTMLElement;
+    const diff = document.getElementById('rc_preview_diff') as HTMLElement;
+    diff.textContent = '';
+    diffLines(this.rcEl.getValue().split('\n'), rc.split('\n')).forEach((line) => {
+      const el = document.createElement('div');
+      el.textContent = line[0] + ' ' + line[1];
+      if (line[0] !== ' ') {
+        el.className = line[0] === '+' ? 'rc-diff-added' : 'rc-diff-removed';
+      }
+      diff.appendChild(el);
+    });
+    // Comments, conditions, source statements, g: variables and values
+    // without a cVimrc form are not generated. Replacing a cVimrc that has
+    // them would lose them, so Replace is disabled and they are listed.
+    const dropped = document.getElementById('rc_preview_dropped') as HTMLElement;
+    const apply = document.getElementById('rc_preview_apply') as HTMLInputElement;
+    const assigned = (line: string) => line.trim().replace(/\s*=.*/, '').split(/\s+/).join(' ');
+    const generated = rc.split('\n').filter((line) => /^\s*let\s/.test(line)).map(assigned);
+    dropped.textContent = '';
+    this.rcEl.getValue().split('\n').forEach((line, i) => {
+      const statement = line.trim();
+      if (/^("|if\s|elseif\s|else$|endif$|source\s|let\s+g:)/.test(statement) ||
+        (/^let\s/.test(statement) && generated.indexOf(assigned(statement)) === -1)) {
+        const el = document.createElement('li');
+        el.textContent = 'line ' + (i + 1) + ': ' + statement;
+        dropped.appendChild(el);
+      }
+    });
+    apply.disabled = dropped.children.length !== 0;
+    (document.getElementById('rc_preview_note') as HTMLElement).hidden = !apply.disabled;
+    preview.hidden = false;
+    apply.onclick = () => {
+      if (apply.disabled)
+        return;
+      preview.hidden = true;
+      this.rcEl.setValue(rc);
+      this.saveSettings();
+    };
+    (document.getElementById('rc_preview_cancel') as HTMLInputElement).onclick = () => {
+      preview.hidden = true;
+    };
+    preview.scrollIntoView();
+  }
+
+  // Convert the configuration pasted into the import panel, listing the
+  // lines that could not be converted
+  importConfig(): void {
+    const source = (document.getElementById('import_source') as HTMLSelectElement).value as ImportSource;
+    const input = document.getElementById('import_input') as HTMLTextAreaElement;
+    const output = document.getElementById('import_output') as HTMLElement;
+    const skipped = document.getElementById('import_skipped') as HTMLElement;
+    const result = convertConfig(source, input.value);
+    output.textContent = result.rc || '(nothing to import)';
+    skipped.textContent = '';
+    result.skipped.forEach((line) => {
+      const el = document.createElement('li');
+      el.textContent = 'line ' + line.line + ': ' + line.text.trim() + ' (' + line.reason + ')';
+      skipped.appendChild(el);
+    });
+    (document.getElementById('import_result') as HTMLElement).hidden = false;
+    (document.getElementById('import_append') as HTMLInputElement).onclick = () => {
+      const rc = this.rcEl.getValue().replace(/\n*$/, '');
+      this.rcEl.setValue((rc ? rc + '\n\n' : '') + result.rc);
+      (document.getElementById('import_result') as HTMLElement).hidden = true;
+      input.value = '';
+    };
+  }
+
   editMode(e: Event): void {
     const target = e.target as HTMLSelectElement;
-    if (this.cssEl) {
-      this.cssEl.setOption('keyMap',
-        target.value === 'Vim' ? 'vim' : 'default');
-    }
+    [this.rcEl, this.cssEl].forEach((editor) => {
+      if (editor) {
+        editor.setOption('keyMap', target.value === 'Vim' ? 'vim' : 'default');
+      }
+    });
   }
 
   syncGist(): void {
@@ -171,7 +359,7 @@ class SettingsManager {
       url.pathname = path.join('/');
     }
     httpRequest({ url: url.toString() }, (res: string) => {
-      this.rcEl.value = res;
+      this.rcEl.setValue(res);
     });
   }
 
@@ -180,17 +368,12 @@ class SettingsManager {
     document.body.spellcheck = false;
 
     this.saveButton = document.getElementById('save_button') as HTMLInputElement;
-    this.rcEl = document.getElementById('mappings') as HTMLTextAreaElement;
     this.editModeEl = document.getElementById('edit_mode') as HTMLSelectElement;
 
-    const autoSize = function(this: HTMLTextAreaElement): void {
-      const stop = document.scrollingElement!.scrollTop;
-      this.style.height = '';
-      this.style.height = this.scrollHeight + 'px';
-      document.scrollingElement!.scrollTop = stop;
-    };
-
-    this.rcEl.addEventListener('input', autoSize);
+    this.rcEl.on('change', () => {
+      clearTimeout(this.lintTimeout);
+      this.lintTimeout = window.setTimeout(() => this.lintrc(), 500);
+    });
 
     this.editModeEl.addEventListener('change', (e) => this.editMode(e), false);
     this.saveButton.addEventListener('click', () => this.saveSettings(), false);
@@ -198,7 +381,9 @@ class SettingsManager {
     (document.getElementById('clearHistory') as HTMLInputElement).addEventListener('click', () => {
       RUNTIME('clearHistory');
     });
+    (document.getElementById('import_convert') as HTMLInputElement).addEventListener('click', () => this.importConfig());
     this.gistUrl = document.getElementById('gistUrl') as HTMLInputElement;
+    this.profileEl = document.getElementById('profileName') as HTMLInputElement;
     (document.getElementById('gistSync') as HTMLInputElement).addEventListener('click', () => this.syncGist());
     this.gistPlaceHolder = 'https://gist.github.com/1995eaton/9e68803bf1f1e7524340';
     this.gistUrl.addEventListener('focus', function() {
@@ -213,6 +398,33 @@ class SettingsManager {
 // Create Settings instance
 const Settings = new SettingsManager();
 
+// Line diff from the longest common subsequence of two texts, marking each
+// line with ' ', '-' (only in a) or '+' (only in b)
+function diffLines(a: string[], b: string[]): [string, string][] {
+  const lengths: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = b.length; j >= 0; j--) {
+      lengths[i]![j] = i === a.length || j === b.length ? 0 :
+        a[i] === b[j] ? lengths[i + 1]![j + 1]! + 1 :
+          Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+  const result: [string, string][] = [];
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      result.push([' ', a[i++]!]);
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1]![j]! >= lengths[i]![j + 1]!)) {
+      result.push(['-', a[i++]!]);
+    } else {
+      result.push(['+', b[j++]!]);
+    }
+  }
+  return result;
+}
+
 function addVersionInfo(): void {
   const el = document.getElementById('version-number') as HTMLElement;
   const version = chrome.runtime.getManifest().version;
@@ -226,6 +438,11 @@ port.onMessage.addListener((response: ChromeMessage) => {
   if (response.type === 'sendSettings') {
     waitForLoad(() => {
       if (Settings.initialLoad) {
+        Settings.rcEl = CodeMirror.fromTextArea(document.getElementById('mappings') as HTMLTextAreaElement, {
+          lineNumbers: true,
+          gutters: ['CodeMirror-linenumbers', 'cvimrc-lint'],
+          viewportMargin: Infinity
+        });
         Settings.cssEl = CodeMirror.fromTextArea(document.getElementById('commandBarCSS') as HTMLTextAreaElement, { lineNumbers: true });
         Settings.initialLoad = false;
         Settings.settings = response.settings!;
@@ -241,14 +458,19 @@ port.onMessage.addListener((response: ChromeMessage) => {
                 alert('error loading configpath: "' + path + '"');
                 break;
               case -2:
-                console.error('Line %d: %s', e.error!.lineno, e.error!.message);
-                alert('parse error on line ' + e.error!.lineno +
-                  ' of config (see console for more info)');
+                console.error('Line %d, column %d: %s', e.error!.lineno,
+                  e.error!.column, e.error!.message);
+                alert('parse error on line ' + e.error!.lineno + ', column ' +
+                  e.error!.column + ' of ' + (e.error!.file || 'config') +
+                  ' (see console for more info)');
             }
           });
         } else {
           Settings.loadrc(response.settings!);
         }
+        if (window.location.hash === '#mkcvimrc') {
+          RUNTIME('serializeSettings', null, (rc: string) => Settings.previewrc(rc));
+        }
       }
     });
   }
@@ -66,6 +66,8 @@ interface CVimSettings {
   qmarks: {[key: string]: string};
   previousmatchpattern: string;
   nextmatchpattern: string;
+  urlincrementpattern: string;
+  completionmatcher: string;
   barposition: string;
   langmap: string;
   insertmappings: {[key: string]: string};